@@ -0,0 +1,16 @@
+import { metadataCorsOptionsRequestHandler, protectedResourceHandler } from "mcp-handler";
+import { authSettingsFromEnv } from "../../../src/auth";
+
+// OAuth 2.0 Protected Resource Metadata (RFC 9728), which MCP clients read to
+// find the authorization server. Only served when OAUTH_ISSUER is configured.
+const authSettings = authSettingsFromEnv(process.env);
+
+const metadataHandler = authSettings.oauth
+  ? protectedResourceHandler({ authServerUrls: [authSettings.oauth.issuer] })
+  : () => new Response("Not found", { status: 404 });
+
+export function GET(req: Request): Response {
+  return metadataHandler(req);
+}
+
+export const OPTIONS = metadataCorsOptionsRequestHandler();
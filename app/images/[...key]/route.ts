@@ -0,0 +1,6 @@
+import { createImageRouteHandler } from "../../../src/storage";
+
+// Built once per instance from the same storage settings as /mcp
+const GET = createImageRouteHandler(process.env);
+
+export { GET };
@@ -0,0 +1,102 @@
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv-provider.js";
+import { JsonSchemaType } from "@modelcontextprotocol/sdk/validation/types.js";
+import { z } from "zod";
+import { ToolError } from "./errors";
+
+// Gemini's native box format: [ymin, xmin, ymax, xmax] scaled to 0-1000
+const box2d = z
+  .array(z.number().int().min(0).max(1000))
+  .length(4)
+  .describe("Bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000");
+
+// Built-in answer shapes for common analyses, each with the instruction used when the call gives no prompt
+const PRESETS = {
+  objects: {
+    prompt: "Detect the distinct objects in the image. Give each a short label and a tight bounding box.",
+    schema: z.object({
+      objects: z.array(z.object({ label: z.string(), box_2d: box2d })),
+    }),
+  },
+  ocr: {
+    prompt:
+      "Transcribe all text in the image as blocks in reading order, each with its bounding box, and the full text joined with newlines.",
+    schema: z.object({
+      blocks: z.array(z.object({ text: z.string(), box_2d: box2d })),
+      fullText: z.string(),
+    }),
+  },
+  colors: {
+    prompt: "List the dominant colors of the image, most prominent first, with the approximate share of the image each covers.",
+    schema: z.object({
+      colors: z.array(
+        z.object({
+          hex: z.string().regex(/^#[0-9a-fA-F]{6}$/).describe("Color as #rrggbb"),
+          name: z.string(),
+          share: z.number().min(0).max(1).describe("Fraction of the image covered, 0-1"),
+        })
+      ),
+    }),
+  },
+  alt_text: {
+    prompt:
+      "Write alt text for the image for screen reader users: at most 125 characters, no 'image of'. Also give a longer description.",
+    schema: z.object({
+      altText: z.string(),
+      description: z.string(),
+    }),
+  },
+} as const;
+
+export const ANALYSIS_PRESETS = Object.keys(PRESETS) as (keyof typeof PRESETS)[];
+
+export type AnalysisPreset = keyof typeof PRESETS;
+
+export function presetPrompt(preset: AnalysisPreset): string {
+  return PRESETS[preset].prompt;
+}
+
+/** A zod schema as JSON Schema for Gemini's responseJsonSchema. */
+export function geminiJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = z.toJSONSchema(schema);
+  // Gemini's responseJsonSchema does not take the meta-schema reference
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+export function presetJsonSchema(preset: AnalysisPreset): Record<string, unknown> {
+  return geminiJsonSchema(PRESETS[preset].schema);
+}
+
+const validator = new AjvJsonSchemaValidator();
+
+/**
+ * Compiles the requested schema up front, so a bad one fails before any
+ * Gemini request, and returns a parser for Gemini's JSON answer. A
+ * malformed answer is a retryable error carrying the model's text, since
+ * another attempt usually conforms.
+ */
+export function structuredAnswerParser(schema: Record<string, unknown>): (text: string) => unknown {
+  let validate: ReturnType<typeof validator.getValidator>;
+  try {
+    validate = validator.getValidator(schema as JsonSchemaType);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ToolError(`Invalid JSON schema: ${message}`, "invalid_input");
+  }
+
+  return (text) => {
+    let answer: unknown;
+    try {
+      answer = JSON.parse(text);
+    } catch {
+      throw new ToolError("Gemini's answer is not valid JSON", "internal", true, { modelText: text });
+    }
+    const result = validate(answer);
+    if (!result.valid) {
+      throw new ToolError(`Gemini's answer does not match the schema: ${result.errorMessage}`, "internal", true, {
+        modelText: text,
+      });
+    }
+    return answer;
+  };
+}
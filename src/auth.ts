@@ -0,0 +1,284 @@
+import * as fs from "fs";
+import { createHash, randomBytes } from "crypto";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+import { ALLOWED_MODELS, GeminiModel } from "./gemini";
+
+/**
+ * passthrough: clients send their own Gemini key in the GOOGLE_API_KEY header.
+ * token: the server holds the Gemini keys and clients authenticate with
+ * bearer tokens, issued by us or by an OAuth authorization server.
+ */
+export const AUTH_MODES = ["passthrough", "token"] as const;
+
+export type AuthMode = (typeof AUTH_MODES)[number];
+
+// What one bearer token (or OAuth subject) may do
+export interface TokenPolicy {
+  /** Names the token in logs and scopes its outputs, sessions and usage */
+  id: string;
+  /** Models the token may use; all models when omitted */
+  models?: GeminiModel[];
+  /** Estimated spend, in USD, after which the token's Gemini calls are rejected */
+  spendingCapUsd?: number;
+  /** Tool calls allowed per rolling 24 hours */
+  maxCallsPerDay?: number;
+}
+
+const tokenEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    /** Hex SHA-256 of an issued token; the token itself is never stored */
+    sha256: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+    /** OAuth subject or client id the policy applies to */
+    subject: z.string().optional(),
+    models: z.array(z.enum(ALLOWED_MODELS)).optional(),
+    spendingCapUsd: z.number().min(0).optional(),
+    maxCallsPerDay: z.number().int().positive().optional(),
+    /** ISO date after which the token is rejected */
+    expiresAt: z.iso.datetime().optional(),
+    revoked: z.boolean().optional(),
+  })
+  .strict()
+  .refine((entry) => entry.sha256 || entry.subject, { message: "Each token needs sha256 or subject" });
+
+const tokenFileSchema = z.object({ tokens: z.array(tokenEntrySchema) }).strict();
+
+type TokenEntry = z.infer<typeof tokenEntrySchema>;
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A new random bearer token, prefixed so it is recognizable in logs and secret scanners
+export function generateToken(): string {
+  return `nbt_${randomBytes(32).toString("base64url")}`;
+}
+
+export interface OAuthSettings {
+  /** Authorization server issuer URL, advertised in the protected resource metadata */
+  issuer: string;
+  /** RFC 7662 token introspection endpoint */
+  introspectionUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  /** Scopes every token must have */
+  requiredScopes: string[];
+}
+
+export interface AuthSettings {
+  mode: AuthMode;
+  /** Server-side Gemini keys used in token mode, in rotation */
+  apiKeys: string[];
+  /** JSON file with issued tokens, re-read when it changes so revocation needs no restart */
+  tokensFile?: string;
+  /** Issued tokens given inline (MCP_TOKENS), as JSON */
+  tokensJson?: string;
+  oauth?: OAuthSettings;
+}
+
+/**
+ * Reads auth settings from AUTH_MODE, GEMINI_API_KEYS (comma-separated) or
+ * GEMINI_API_KEY, MCP_TOKENS_FILE, MCP_TOKENS, OAUTH_ISSUER,
+ * OAUTH_INTROSPECTION_URL, OAUTH_CLIENT_ID, OAUTH_CLIENT_SECRET and
+ * OAUTH_REQUIRED_SCOPES.
+ */
+export function authSettingsFromEnv(env: NodeJS.ProcessEnv): AuthSettings {
+  const mode = (env.AUTH_MODE || "passthrough") as AuthMode;
+  if (!AUTH_MODES.includes(mode)) {
+    throw new Error(`Invalid AUTH_MODE: ${mode}. Allowed values: ${AUTH_MODES.join(", ")}`);
+  }
+  const settings: AuthSettings = {
+    mode,
+    apiKeys: (env.GEMINI_API_KEYS || env.GEMINI_API_KEY || "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean),
+    tokensFile: env.MCP_TOKENS_FILE || undefined,
+    tokensJson: env.MCP_TOKENS || undefined,
+  };
+  if (env.OAUTH_INTROSPECTION_URL) {
+    if (!env.OAUTH_ISSUER) {
+      throw new Error("OAUTH_ISSUER is required with OAUTH_INTROSPECTION_URL");
+    }
+    settings.oauth = {
+      issuer: env.OAUTH_ISSUER,
+      introspectionUrl: env.OAUTH_INTROSPECTION_URL,
+      clientId: env.OAUTH_CLIENT_ID || undefined,
+      clientSecret: env.OAUTH_CLIENT_SECRET || undefined,
+      requiredScopes: (env.OAUTH_REQUIRED_SCOPES ?? "").split(/[\s,]+/).filter(Boolean),
+    };
+  }
+  if (mode === "token") {
+    if (settings.apiKeys.length === 0) {
+      throw new Error("AUTH_MODE=token requires GEMINI_API_KEYS or GEMINI_API_KEY");
+    }
+    if (!settings.tokensFile && !settings.tokensJson && !settings.oauth) {
+      throw new Error("AUTH_MODE=token requires MCP_TOKENS_FILE, MCP_TOKENS or OAUTH_INTROSPECTION_URL");
+    }
+  }
+  return settings;
+}
+
+// Hands out the server's Gemini keys in turn, spreading load and rate limits
+export class ApiKeyPool {
+  private next = 0;
+
+  constructor(private readonly keys: string[]) {}
+
+  take(): string {
+    const key = this.keys[this.next % this.keys.length];
+    this.next += 1;
+    return key;
+  }
+}
+
+function parseTokens(raw: string, source: string): TokenEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${source}: ${message}`);
+  }
+  const parsed = tokenFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${source}: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data.tokens;
+}
+
+function toPolicy(entry: TokenEntry): TokenPolicy {
+  return {
+    id: entry.id,
+    models: entry.models,
+    spendingCapUsd: entry.spendingCapUsd,
+    maxCallsPerDay: entry.maxCallsPerDay,
+  };
+}
+
+// Introspection results are reused briefly so every MCP message does not cost a round trip
+const INTROSPECTION_CACHE_MS = 60_000;
+
+/**
+ * Verifies bearer tokens in token mode: issued tokens by their hash, other
+ * tokens through OAuth introspection. Returns MCP AuthInfo with the token's
+ * policy in extra.policy.
+ */
+export class TokenVerifier {
+  private entries: TokenEntry[] = [];
+  private fileMtimeMs = -1;
+  private introspected = new Map<string, { info: AuthInfo | null; until: number }>();
+
+  constructor(private readonly settings: AuthSettings) {
+    if (settings.tokensJson) {
+      this.entries = parseTokens(settings.tokensJson, "MCP_TOKENS");
+    }
+    this.reloadFile();
+  }
+
+  // Picks up edits to the tokens file, such as revocations, on the next request
+  private reloadFile(): void {
+    if (!this.settings.tokensFile) {
+      return;
+    }
+    const mtimeMs = fs.statSync(this.settings.tokensFile).mtimeMs;
+    if (mtimeMs !== this.fileMtimeMs) {
+      const fileEntries = parseTokens(fs.readFileSync(this.settings.tokensFile, "utf-8"), this.settings.tokensFile);
+      const inline = this.settings.tokensJson ? parseTokens(this.settings.tokensJson, "MCP_TOKENS") : [];
+      this.entries = [...inline, ...fileEntries];
+      this.fileMtimeMs = mtimeMs;
+    }
+  }
+
+  private checkEntry(entry: TokenEntry): void {
+    if (entry.revoked) {
+      throw new InvalidTokenError(`Token ${entry.id} has been revoked`);
+    }
+    if (entry.expiresAt && Date.parse(entry.expiresAt) < Date.now()) {
+      throw new InvalidTokenError(`Token ${entry.id} has expired`);
+    }
+  }
+
+  async verify(token: string | undefined): Promise<AuthInfo | undefined> {
+    if (!token) {
+      return undefined;
+    }
+    this.reloadFile();
+
+    const hash = hashToken(token);
+    const issued = this.entries.find((entry) => entry.sha256 === hash);
+    if (issued) {
+      this.checkEntry(issued);
+      return { token, clientId: issued.id, scopes: [], extra: { policy: toPolicy(issued) } };
+    }
+
+    if (this.settings.oauth) {
+      return this.introspect(token, hash, this.settings.oauth);
+    }
+    throw new InvalidTokenError("Unknown token");
+  }
+
+  private async introspect(token: string, hash: string, oauth: OAuthSettings): Promise<AuthInfo> {
+    const cached = this.introspected.get(hash);
+    let info = cached && cached.until > Date.now() ? cached.info : undefined;
+    if (info === undefined) {
+      info = await this.requestIntrospection(token, oauth);
+      this.introspected.set(hash, { info, until: Date.now() + INTROSPECTION_CACHE_MS });
+      for (const [key, value] of this.introspected) {
+        if (value.until <= Date.now()) {
+          this.introspected.delete(key);
+        }
+      }
+    }
+    if (!info) {
+      throw new InvalidTokenError("Token is not active");
+    }
+
+    const missing = oauth.requiredScopes.filter((scope) => !info.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new InvalidTokenError(`Token lacks required scope(s): ${missing.join(", ")}`);
+    }
+    // A policy entry for the subject adds allowlists, quotas and revocation on our side
+    const entry = this.entries.find((candidate) => candidate.subject === info.clientId);
+    if (entry) {
+      this.checkEntry(entry);
+    }
+    return { ...info, extra: { policy: entry ? toPolicy(entry) : { id: info.clientId } } };
+  }
+
+  private async requestIntrospection(token: string, oauth: OAuthSettings): Promise<AuthInfo | null> {
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" };
+    if (oauth.clientId) {
+      const credentials = Buffer.from(`${oauth.clientId}:${oauth.clientSecret ?? ""}`).toString("base64");
+      headers.Authorization = `Basic ${credentials}`;
+    }
+    const response = await fetch(oauth.introspectionUrl, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: "access_token" }).toString(),
+    });
+    if (!response.ok) {
+      throw new Error(`Token introspection failed: ${response.status} ${response.statusText}`);
+    }
+    const result = (await response.json()) as {
+      active?: boolean;
+      sub?: string;
+      client_id?: string;
+      scope?: string;
+      exp?: number;
+    };
+    // Without a subject or client id the token has no identity to key quotas and policies on
+    const clientId = result.sub || result.client_id;
+    if (!result.active || !clientId) {
+      return null;
+    }
+    return {
+      token,
+      clientId,
+      scopes: (result.scope ?? "").split(" ").filter(Boolean),
+      expiresAt: result.exp,
+    };
+  }
+}
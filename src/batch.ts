@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { ToolError } from "./errors";
+import { FIT_MODES, OUTPUT_FORMATS } from "./formats";
+import { ALLOWED_MODELS, ASPECT_RATIOS, IMAGE_SIZES, SAFETY_THRESHOLDS } from "./gemini";
+
+// Upper bound for concurrently running jobs, on top of the Gemini call policy
+export const MAX_BATCH_CONCURRENCY = 16;
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// Settings a job can set itself or inherit from the manifest defaults
+const jobOptionsShape = {
+  aspectRatio: z.enum(ASPECT_RATIOS).optional(),
+  imageSize: z.enum(IMAGE_SIZES).optional(),
+  model: z.enum(ALLOWED_MODELS).optional(),
+  count: z.number().int().min(1).max(8).optional(),
+  format: z.enum(OUTPUT_FORMATS).optional(),
+  quality: z.number().int().min(1).max(100).optional(),
+  width: z.number().int().positive().max(8192).optional(),
+  height: z.number().int().positive().max(8192).optional(),
+  fit: z.enum(FIT_MODES).optional(),
+  padColor: z.string().optional(),
+  embedMetadata: z.boolean().optional(),
+  safetyThreshold: z.enum(SAFETY_THRESHOLDS).optional(),
+  style: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+  styleVariables: z.record(z.string(), z.string()).optional(),
+};
+
+const jobSchema = z
+  .object({
+    id: z.string().optional(),
+    prompt: z.string(),
+    output: z.string(),
+    /** One input edits it, several are composited */
+    inputs: z.array(z.string()).optional(),
+    variables: z.record(z.string(), scalarSchema).optional(),
+    /** Runs the job once per combination of these values */
+    matrix: z.record(z.string(), z.array(scalarSchema).min(1)).optional(),
+    ...jobOptionsShape,
+  })
+  .strict();
+
+const manifestSchema = z
+  .object({
+    variables: z.record(z.string(), scalarSchema).optional(),
+    defaults: z.object(jobOptionsShape).strict().optional(),
+    concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional(),
+    jobs: z.array(jobSchema).min(1),
+  })
+  .strict();
+
+export type BatchManifest = z.infer<typeof manifestSchema>;
+
+export type BatchJobOptions = z.infer<z.ZodObject<typeof jobOptionsShape>>;
+
+// One image request of a batch, after templates and the matrix are expanded
+export interface BatchJob extends BatchJobOptions {
+  id: string;
+  prompt: string;
+  outputPath: string;
+  /** File paths (resolved against the manifest directory) or URLs */
+  inputs: string[];
+}
+
+/**
+ * Parses a JSON or YAML manifest (YAML is a superset of JSON, so one parser
+ * reads both). source names the manifest in error messages.
+ */
+export function parseManifest(text: string, source: string): BatchManifest {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ToolError(`Could not parse manifest ${source}: ${message}`, "invalid_input");
+  }
+  const parsed = manifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ToolError(`Invalid manifest ${source}: ${z.prettifyError(parsed.error)}`, "invalid_input");
+  }
+  return parsed.data;
+}
+
+export function loadManifest(manifestPath: string): BatchManifest {
+  if (!fs.existsSync(manifestPath)) {
+    throw new ToolError(`Manifest not found: ${manifestPath}`, "invalid_input");
+  }
+  return parseManifest(fs.readFileSync(manifestPath, "utf-8"), manifestPath);
+}
+
+// Replaces {{name}} placeholders; an unknown name is an error rather than an empty string
+function renderTemplate(template: string, variables: Record<string, string>, jobLabel: string): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new ToolError(`Job ${jobLabel} uses undefined variable {{${name}}}`, "invalid_input");
+    }
+    return variables[name];
+  });
+}
+
+function matrixCombinations(matrix: Record<string, z.infer<typeof scalarSchema>[]> | undefined): Record<string, string>[] {
+  let combinations: Record<string, string>[] = [{}];
+  for (const [name, values] of Object.entries(matrix ?? {})) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: String(value) }))
+    );
+  }
+  return combinations;
+}
+
+function stringify(variables: Record<string, z.infer<typeof scalarSchema>> | undefined): Record<string, string> {
+  return Object.fromEntries(Object.entries(variables ?? {}).map(([name, value]) => [name, String(value)]));
+}
+
+// Inputs that are passed on as imageUrl rather than read from disk
+export function isRemoteInput(input: string): boolean {
+  return /^(https?:|data:)/i.test(input);
+}
+
+function pickOptions(job: BatchJobOptions): BatchJobOptions {
+  const keys = Object.keys(jobOptionsShape) as (keyof BatchJobOptions)[];
+  return Object.fromEntries(keys.filter((key) => job[key] !== undefined).map((key) => [key, job[key]]));
+}
+
+/**
+ * Expands every job of a manifest into concrete image requests: one per
+ * matrix combination, with {{variables}} filled into the prompt, output path,
+ * inputs and id, and the manifest defaults applied. Relative paths are
+ * resolved against baseDir. Two jobs writing the same file are an error.
+ */
+export function expandJobs(manifest: BatchManifest, baseDir: string): BatchJob[] {
+  const jobs: BatchJob[] = [];
+  const outputs = new Map<string, string>();
+
+  manifest.jobs.forEach((job, index) => {
+    const label = job.id ?? `#${index + 1}`;
+    for (const combination of matrixCombinations(job.matrix)) {
+      const variables = { ...stringify(manifest.variables), ...stringify(job.variables), ...combination };
+      const outputPath = path.resolve(baseDir, renderTemplate(job.output, variables, label));
+      const id = job.id ? renderTemplate(job.id, variables, label) : path.relative(baseDir, outputPath);
+
+      const previous = outputs.get(outputPath);
+      if (previous !== undefined) {
+        throw new ToolError(`Jobs ${previous} and ${id} both write ${outputPath}`, "invalid_input");
+      }
+      outputs.set(outputPath, id);
+
+      jobs.push({
+        ...manifest.defaults,
+        ...pickOptions(job),
+        id,
+        prompt: renderTemplate(job.prompt, variables, label),
+        outputPath,
+        inputs: (job.inputs ?? []).map((input) => {
+          const rendered = renderTemplate(input, variables, label);
+          return isRemoteInput(rendered) ? rendered : path.resolve(baseDir, rendered);
+        }),
+      });
+    }
+  });
+  return jobs;
+}
@@ -0,0 +1,187 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+
+// Where and how long Gemini responses are kept
+export interface CacheSettings {
+  dir: string;
+  /** Entries older than this are ignored and deleted */
+  ttlMs: number;
+  /** Oldest entries are evicted once the directory grows beyond this */
+  maxBytes: number;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_MAX_BYTES = 512 * 1024 * 1024;
+
+function parsePositiveNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: ${value}. Expected a positive number`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads cache settings from NANOBANANA_CACHE_DIR, NANOBANANA_CACHE_TTL_HOURS
+ * and NANOBANANA_CACHE_MAX_MB over base. Without a directory the cache is
+ * disabled and undefined is returned.
+ */
+export function cacheSettingsFromEnv(
+  env: NodeJS.ProcessEnv,
+  base: Partial<CacheSettings> = {}
+): CacheSettings | undefined {
+  const dir = env.NANOBANANA_CACHE_DIR || base.dir;
+  if (!dir) {
+    return undefined;
+  }
+  const ttlHours = parsePositiveNumber("NANOBANANA_CACHE_TTL_HOURS", env.NANOBANANA_CACHE_TTL_HOURS);
+  const maxMb = parsePositiveNumber("NANOBANANA_CACHE_MAX_MB", env.NANOBANANA_CACHE_MAX_MB);
+  return {
+    dir: path.resolve(dir),
+    ttlMs: ttlHours !== undefined ? ttlHours * 60 * 60 * 1000 : (base.ttlMs ?? DEFAULT_CACHE_TTL_MS),
+    maxBytes: maxMb !== undefined ? maxMb * 1024 * 1024 : (base.maxBytes ?? DEFAULT_CACHE_MAX_BYTES),
+  };
+}
+
+// How the cache was used by one tool call
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Lookups skipped because the call set bypassCache */
+  bypassed: number;
+}
+
+export function describeCacheStats(stats: CacheStats): string | undefined {
+  const parts = [
+    stats.hits > 0 ? `${stats.hits} hit(s)` : "",
+    stats.misses > 0 ? `${stats.misses} miss(es)` : "",
+    stats.bypassed > 0 ? `${stats.bypassed} bypassed` : "",
+  ].filter(Boolean);
+  if (parts.length === 0) {
+    return undefined;
+  }
+  const free = stats.misses === 0 && stats.bypassed === 0 ? ", no Gemini request made" : "";
+  return `${parts.join(", ")}${free}`;
+}
+
+/**
+ * A request whose response may be served from the cache: the tool it is made
+ * for and, for calls producing several variants, which one (identical
+ * requests for different variants must not share an entry).
+ */
+export interface CacheLookup {
+  cache: ResultCache;
+  tool: string;
+  variant?: number;
+  bypass: boolean;
+}
+
+// Only responses that carry an image are worth replaying; refusals and
+// blocked prompts should be retried
+export function isCacheable(response: GenerateContentResponse): boolean {
+  return (response.candidates ?? []).some((candidate) =>
+    (candidate.content?.parts ?? []).some((part) => part.inlineData?.data)
+  );
+}
+
+interface CacheEntry {
+  createdAt: string;
+  response: unknown;
+}
+
+/**
+ * On-disk cache of Gemini responses, keyed by a hash of the tool, model,
+ * prompt, parameters and input image bytes. Entries are JSON files named by
+ * their key; the TTL and size limit are enforced by file modification time.
+ * scope separates callers that must not see each other's results (e.g. API
+ * keys on the HTTP route) while sharing one directory and size limit.
+ */
+export class ResultCache {
+  constructor(
+    readonly settings: CacheSettings,
+    private readonly scope = ""
+  ) {}
+
+  withScope(scope: string): ResultCache {
+    return new ResultCache(this.settings, scope);
+  }
+
+  key(tool: string, variant: number | undefined, request: GenerateContentParameters): string {
+    // abortSignal is per attempt and not part of the request's identity
+    const config = { ...request.config };
+    delete config.abortSignal;
+    return createHash("sha256")
+      .update(
+        JSON.stringify({ scope: this.scope, tool, variant, model: request.model, contents: request.contents, config })
+      )
+      .digest("hex");
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.settings.dir, key.slice(0, 2), `${key}.json`);
+  }
+
+  /** Returns the cached response, or null when there is none or it has expired. */
+  async get(key: string): Promise<GenerateContentResponse | null> {
+    const entryPath = this.entryPath(key);
+    try {
+      const stat = await fs.promises.stat(entryPath);
+      if (Date.now() - stat.mtimeMs > this.settings.ttlMs) {
+        await fs.promises.rm(entryPath, { force: true });
+        return null;
+      }
+      const entry = JSON.parse(await fs.promises.readFile(entryPath, "utf-8")) as CacheEntry;
+      return Object.assign(new GenerateContentResponse(), entry.response);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        // A corrupt entry is dropped rather than failing the call
+        await fs.promises.rm(entryPath, { force: true });
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, response: GenerateContentResponse): Promise<void> {
+    const entryPath = this.entryPath(key);
+    await fs.promises.mkdir(path.dirname(entryPath), { recursive: true });
+    const entry: CacheEntry = { createdAt: new Date().toISOString(), response };
+    // Write then rename, so concurrent readers never see a partial entry
+    const tempPath = `${entryPath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(entry));
+    await fs.promises.rename(tempPath, entryPath);
+    await this.prune();
+  }
+
+  /** Deletes expired entries, then the oldest ones until the cache fits in maxBytes. */
+  async prune(): Promise<void> {
+    const entries: { path: string; size: number; mtimeMs: number }[] = [];
+    const dirs = await fs.promises.readdir(this.settings.dir).catch(() => [] as string[]);
+    for (const dir of dirs) {
+      const files = await fs.promises.readdir(path.join(this.settings.dir, dir)).catch(() => [] as string[]);
+      for (const file of files) {
+        const filePath = path.join(this.settings.dir, dir, file);
+        const stat = await fs.promises.stat(filePath).catch(() => null);
+        if (stat?.isFile()) {
+          entries.push({ path: filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+        }
+      }
+    }
+
+    const now = Date.now();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of entries) {
+      if (now - entry.mtimeMs <= this.settings.ttlMs && total <= this.settings.maxBytes) {
+        continue;
+      }
+      await fs.promises.rm(entry.path, { force: true });
+      total -= entry.size;
+    }
+  }
+}
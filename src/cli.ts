@@ -0,0 +1,510 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ANALYSIS_PRESETS } from "./analysis";
+import { generateToken, hashToken } from "./auth";
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, expandJobs, loadManifest } from "./batch";
+import { loadConfig } from "./config";
+import { ErrorCategory, ToolError, classifyError } from "./errors";
+import { ALLOWED_MODELS, ASPECT_RATIOS, GeminiModel, IMAGE_SIZES, SAFETY_THRESHOLDS } from "./gemini";
+import { FIT_MODES, OUTPUT_FORMATS } from "./formats";
+import { createLocalTransport } from "./local";
+import { OUTPUT_URI_PREFIX } from "./outputs";
+import { SERVER_VERSION } from "./provenance";
+import { OVERWRITE_POLICIES, PathSandbox } from "./sandbox";
+import { NanobananaImageMCPServer } from "./server";
+import { describeBatch, runBatch } from "./tools";
+
+const USAGE = `Usage: nanobanana generate --prompt TEXT --out PATH [options]
+       nanobanana edit --input IMAGE --prompt TEXT --out PATH [options]
+       nanobanana composite --input IMAGE --input IMAGE ... --prompt TEXT --out PATH [options]
+       nanobanana analyze --input IMAGE (--prompt TEXT | --preset NAME | --schema FILE) [options]
+       nanobanana batch <manifest> [--force] [--concurrency N]
+       nanobanana token --id NAME [--models a,b] [--cap USD] [--calls-per-day N] [--expires DATE]
+
+Commands:
+  generate           Generate an image from a prompt (generate_image)
+  edit               Edit an image (edit_image)
+  composite          Combine several images (composite_images)
+  analyze            Describe or answer a question about an image (analyze_image)
+  batch <manifest>   Run the jobs of a JSON or YAML manifest
+  token              Issue a bearer token for the HTTP server's AUTH_MODE=token
+
+The image commands run the MCP server's tools in process and print the result
+as JSON: {"ok", "tool", "outputs": [{"path", "mimeType"}], "text", "answer"}
+on success, {"ok": false, "tool", "error": {"message", "category", "retryable", ...}}
+on failure. Progress goes to stderr.
+
+Tool options:
+  --prompt TEXT      Prompt or question
+  --prompt-file FILE Read the prompt from FILE, or from stdin when FILE is -
+  --input IMAGE      Input image path or URL (edit, analyze; repeat for composite)
+  --mask IMAGE       Mask image path or URL (edit)
+  --out PATH         Output file; the extension picks the format (generate, edit, composite)
+  --overwrite MODE   When --out exists: ${OVERWRITE_POLICIES.join(", ")}
+  --aspect-ratio R   ${ASPECT_RATIOS.join(", ")}
+  --image-size S     ${IMAGE_SIZES.join(", ")}
+  --count N          Number of variants to generate
+  --format F         Output format: ${OUTPUT_FORMATS.join(", ")}
+  --quality N        JPEG/WebP quality, 1-100
+  --width N          Resize the output to this width
+  --height N         Resize the output to this height
+  --fit MODE         ${FIT_MODES.join(", ")}
+  --no-metadata      Do not embed provenance metadata in the output
+  --bypass-cache     Ignore cached responses (when NANOBANANA_CACHE_DIR is set)
+  --style NAME       Apply a named style; repeat to combine (generate, edit, composite)
+  --style-var K=V    Set a style variable, e.g. --style-var colors="#0B3D91, #FFFFFF"
+  --preset NAME      Structured answer: ${ANALYSIS_PRESETS.join(", ")} (analyze)
+  --schema FILE      JSON Schema file for a custom structured answer (analyze)
+  --model M          ${ALLOWED_MODELS.join(", ")}
+  --safety LEVEL     Safety threshold: ${SAFETY_THRESHOLDS.join(", ")}
+
+Batch options:
+  --force            Regenerate jobs whose output file already exists
+  --concurrency N    Jobs to run at once, 1-${MAX_BATCH_CONCURRENCY} (default: the manifest's, else ${DEFAULT_BATCH_CONCURRENCY})
+
+Token options:
+  --id NAME          Name of the token, shown in logs and used to scope its usage
+  --models a,b       Models the token may use (default: all)
+  --cap USD          Estimated spend after which the token's calls are rejected
+  --calls-per-day N  Tool calls allowed per rolling 24 hours
+  --expires DATE     ISO date after which the token is rejected
+
+  -h, --help         Show this help
+
+Exit codes: 0 success, 1 failure, 2 bad usage or input, 3 authentication,
+4 quota or spending cap, 5 safety block or no image in the answer.`;
+
+// Lets scripts tell what to do about a failure: fix the call, the credentials, wait, or rephrase
+const EXIT_CODES: Partial<Record<ErrorCategory, number>> = {
+  invalid_input: 2,
+  auth: 3,
+  quota: 4,
+  safety: 5,
+  no_image: 5,
+};
+
+function exitCode(category: ErrorCategory): number {
+  return EXIT_CODES[category] ?? 1;
+}
+
+// The image tools behind each subcommand, and the tool arguments each takes
+const TOOL_COMMANDS = {
+  generate: { tool: "generate_image", input: "none", output: true },
+  edit: { tool: "edit_image", input: "one", output: true },
+  composite: { tool: "composite_images", input: "many", output: true },
+  analyze: { tool: "analyze_image", input: "one", output: false },
+} as const;
+
+type ToolCommand = keyof typeof TOOL_COMMANDS;
+
+// Own keys only, so "toString" and friends are unknown commands
+function isToolCommand(command: string): command is ToolCommand {
+  return Object.prototype.hasOwnProperty.call(TOOL_COMMANDS, command);
+}
+
+/** Subcommands of the nanobanana command line, which nanobanana-mcp also runs when given one. */
+export const CLI_COMMANDS = [...Object.keys(TOOL_COMMANDS), "batch", "token"];
+
+const TOOL_OPTIONS = {
+  prompt: { type: "string" },
+  "prompt-file": { type: "string" },
+  input: { type: "string", multiple: true },
+  mask: { type: "string" },
+  out: { type: "string" },
+  overwrite: { type: "string" },
+  "aspect-ratio": { type: "string" },
+  "image-size": { type: "string" },
+  count: { type: "string" },
+  format: { type: "string" },
+  quality: { type: "string" },
+  width: { type: "string" },
+  height: { type: "string" },
+  fit: { type: "string" },
+  "no-metadata": { type: "boolean" },
+  "bypass-cache": { type: "boolean" },
+  style: { type: "string", multiple: true },
+  "style-var": { type: "string", multiple: true },
+  preset: { type: "string" },
+  schema: { type: "string" },
+  model: { type: "string" },
+  safety: { type: "string" },
+} as const;
+
+const IMAGE_COMMANDS: ToolCommand[] = ["generate", "edit", "composite"];
+
+// Options only some commands take; the rest apply to every tool command
+const COMMAND_ONLY_OPTIONS: Partial<Record<keyof typeof TOOL_OPTIONS, ToolCommand[]>> = {
+  mask: ["edit"],
+  out: IMAGE_COMMANDS,
+  overwrite: IMAGE_COMMANDS,
+  "aspect-ratio": IMAGE_COMMANDS,
+  "image-size": IMAGE_COMMANDS,
+  count: IMAGE_COMMANDS,
+  format: IMAGE_COMMANDS,
+  quality: IMAGE_COMMANDS,
+  width: IMAGE_COMMANDS,
+  height: IMAGE_COMMANDS,
+  fit: IMAGE_COMMANDS,
+  "no-metadata": IMAGE_COMMANDS,
+  "bypass-cache": IMAGE_COMMANDS,
+  style: IMAGE_COMMANDS,
+  "style-var": IMAGE_COMMANDS,
+  preset: ["analyze"],
+  schema: ["analyze"],
+};
+
+function isUrl(image: string): boolean {
+  return /^(https?|data):/i.test(image);
+}
+
+function readPrompt(prompt: string | undefined, promptFile: string | undefined): string | undefined {
+  if (promptFile === undefined) {
+    return prompt;
+  }
+  let text: string;
+  try {
+    text = fs.readFileSync(promptFile === "-" ? 0 : promptFile, "utf-8").trim();
+  } catch (error) {
+    throw new ToolError(
+      `Could not read prompt file ${promptFile}: ${error instanceof Error ? error.message : error}`,
+      "invalid_input"
+    );
+  }
+  if (!text) {
+    throw new ToolError(`The prompt in ${promptFile === "-" ? "stdin" : promptFile} is empty`, "invalid_input");
+  }
+  return text;
+}
+
+// Numbers are passed through as given; the tool's argument schema reports bad values
+function numberArg(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+// Tool arguments for a subcommand's options, or a usage error
+function toolArgs(command: ToolCommand, values: ReturnType<typeof parseToolOptions>["values"]): Record<string, unknown> | string {
+  const { input: inputKind, output } = TOOL_COMMANDS[command];
+  for (const [option, commands] of Object.entries(COMMAND_ONLY_OPTIONS)) {
+    if (values[option as keyof typeof TOOL_OPTIONS] !== undefined && !commands.includes(command)) {
+      return `--${option} is not an option of ${command}`;
+    }
+  }
+  if (values.prompt !== undefined && values["prompt-file"] !== undefined) {
+    return "Pass either --prompt or --prompt-file, not both";
+  }
+  const prompt = readPrompt(values.prompt, values["prompt-file"]);
+  if (prompt === undefined && command !== "analyze") {
+    return "--prompt or --prompt-file is required";
+  }
+  if (output && !values.out) {
+    return "--out is required";
+  }
+
+  const inputs = values.input ?? [];
+  const args: Record<string, unknown> = { prompt };
+  if (inputKind === "none" && inputs.length > 0) {
+    return `--input is not an option of ${command}`;
+  }
+  if (inputKind === "one") {
+    if (inputs.length !== 1) {
+      return `${command} takes exactly one --input`;
+    }
+    const [image] = inputs;
+    const pathArg = command === "analyze" ? "imagePath" : "inputPath";
+    args[isUrl(image) ? "imageUrl" : pathArg] = image;
+  }
+  if (inputKind === "many") {
+    if (inputs.length === 0) {
+      return `${command} needs at least one --input`;
+    }
+    args.imagePaths = inputs.filter((image) => !isUrl(image));
+    args.imageUrls = inputs.filter(isUrl);
+  }
+  if (values.mask !== undefined) {
+    args[isUrl(values.mask) ? "maskUrl" : "maskPath"] = values.mask;
+  }
+  if (values["style-var"] !== undefined) {
+    const styleVariables: Record<string, string> = {};
+    for (const assignment of values["style-var"]) {
+      const separator = assignment.indexOf("=");
+      if (separator <= 0) {
+        return `--style-var takes NAME=VALUE, got ${assignment}`;
+      }
+      styleVariables[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    }
+    args.styleVariables = styleVariables;
+  }
+  if (values.schema !== undefined) {
+    try {
+      args.schema = JSON.parse(fs.readFileSync(values.schema, "utf-8"));
+    } catch (error) {
+      throw new ToolError(
+        `Could not read schema file ${values.schema}: ${error instanceof Error ? error.message : error}`,
+        "invalid_input"
+      );
+    }
+  }
+
+  Object.assign(args, {
+    outputPath: values.out,
+    overwrite: values.overwrite,
+    aspectRatio: values["aspect-ratio"],
+    imageSize: values["image-size"],
+    count: numberArg(values.count),
+    format: values.format,
+    quality: numberArg(values.quality),
+    width: numberArg(values.width),
+    height: numberArg(values.height),
+    fit: values.fit,
+    embedMetadata: values["no-metadata"] ? false : undefined,
+    bypassCache: values["bypass-cache"],
+    style: values.style,
+    preset: values.preset,
+    model: values.model,
+    safetyThreshold: values.safety,
+  });
+  return Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+}
+
+function parseToolOptions(args: string[]) {
+  return parseArgs({ args, options: TOOL_OPTIONS });
+}
+
+// The JSON printed for a tool call
+interface ToolCommandResult {
+  ok: boolean;
+  tool: string;
+  /** Files the call saved */
+  outputs?: { path: string; mimeType: string }[];
+  /** The tool's summary, as an MCP client shows it */
+  text?: string;
+  /** analyze_image's structured answer, with --preset or --schema */
+  answer?: unknown;
+  error?: { message: string; category: ErrorCategory; retryable: boolean };
+}
+
+// setTimeout's maximum; the server's call policy already bounds every Gemini request
+const NO_CLIENT_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Calls a tool of the MCP server in process, through an MCP client, so
+ * arguments are validated, defaulted and metered exactly as for MCP clients.
+ * Paths are not confined to the working directory, since the user runs the
+ * command directly; NANOBANANA_ALLOWED_DIRS still applies.
+ */
+async function callTool(tool: string, args: Record<string, unknown>): Promise<ToolCommandResult> {
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    // Bad settings are the caller's to fix, like bad arguments
+    throw new ToolError(error instanceof Error ? error.message : String(error), "invalid_input");
+  }
+  const server = new NanobananaImageMCPServer(config, new PathSandbox(config.sandbox));
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "nanobanana-cli", version: SERVER_VERSION });
+  await client.connect(clientTransport);
+
+  let result: CallToolResult;
+  try {
+    result = (await client.callTool({ name: tool, arguments: args }, undefined, {
+      timeout: NO_CLIENT_TIMEOUT_MS,
+      onprogress: (progress) => console.error(progress.message ?? `${progress.progress}/${progress.total ?? "?"}`),
+    })) as CallToolResult;
+  } finally {
+    await client.close();
+  }
+
+  const text = result.content
+    .filter((item) => item.type === "text")
+    .map((item) => item.text)
+    .join("\n");
+  if (result.isError) {
+    // Arguments the tool's schema rejects fail before the tool runs, without structured details
+    const error = (result.structuredContent?.error as ToolCommandResult["error"]) ?? {
+      message: text,
+      category: "invalid_input",
+      retryable: false,
+    };
+    return { ok: false, tool, error };
+  }
+
+  const outputStore = server.toolTransport.getOutputStore();
+  const outputs = result.content.flatMap((item) => {
+    const record = item.type === "resource_link" ? outputStore.get(item.uri.slice(OUTPUT_URI_PREFIX.length)) : undefined;
+    return record ? [{ path: record.location, mimeType: record.mimeType }] : [];
+  });
+  return {
+    ok: true,
+    tool,
+    ...(outputs.length > 0 ? { outputs } : {}),
+    text,
+    ...(result.structuredContent ? { answer: result.structuredContent } : {}),
+  };
+}
+
+async function toolCommand(command: ToolCommand, argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseToolOptions(argv);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+  const { tool } = TOOL_COMMANDS[command];
+  let result: ToolCommandResult;
+  try {
+    const args = toolArgs(command, parsed.values);
+    if (typeof args === "string") {
+      console.error(`${args}\n\n${USAGE}`);
+      return 2;
+    }
+    result = await callTool(tool, args);
+  } catch (error) {
+    // Unreadable prompt or schema files and invalid settings are reported like a failed call
+    const { message, category, retryable } = classifyError(error);
+    result = { ok: false, tool, error: { message, category, retryable } };
+  }
+  console.log(JSON.stringify(result, null, 2));
+  return result.error ? exitCode(result.error.category) : 0;
+}
+
+// Exit codes: 0 success, 1 a job or the run failed, 2 bad usage
+async function batch(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        force: { type: "boolean", default: false },
+        concurrency: { type: "string" },
+      },
+    });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY)) {
+    console.error(`--concurrency must be an integer from 1 to ${MAX_BATCH_CONCURRENCY}`);
+    return 2;
+  }
+
+  const manifestPath = path.resolve(positionals[0]);
+  const manifest = loadManifest(manifestPath);
+  const jobs = expandJobs(manifest, path.dirname(manifestPath));
+  const results = await runBatch(createLocalTransport(loadConfig()), jobs, {
+    force: values.force ?? false,
+    concurrency: concurrency ?? manifest.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+  });
+
+  console.log(describeBatch(results));
+  return results.some((result) => result.status === "failed") ? 1 : 0;
+}
+
+// Prints a new token once, and the entry (holding only its hash) to add to MCP_TOKENS_FILE
+function token(args: string[]): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      options: {
+        id: { type: "string" },
+        models: { type: "string" },
+        cap: { type: "string" },
+        "calls-per-day": { type: "string" },
+        expires: { type: "string" },
+      },
+    });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values } = parsed;
+  if (!values.id) {
+    console.error(`--id is required\n\n${USAGE}`);
+    return 2;
+  }
+
+  const models = values.models?.split(",").map((model) => model.trim());
+  const unknown = models?.filter((model) => !ALLOWED_MODELS.includes(model as GeminiModel)) ?? [];
+  if (unknown.length > 0) {
+    console.error(`Unknown model(s): ${unknown.join(", ")}. Allowed values: ${ALLOWED_MODELS.join(", ")}`);
+    return 2;
+  }
+  const cap = values.cap !== undefined ? Number(values.cap) : undefined;
+  if (cap !== undefined && (!Number.isFinite(cap) || cap < 0)) {
+    console.error("--cap must be a non-negative number");
+    return 2;
+  }
+  const callsPerDay = values["calls-per-day"] !== undefined ? Number(values["calls-per-day"]) : undefined;
+  if (callsPerDay !== undefined && (!Number.isInteger(callsPerDay) || callsPerDay < 1)) {
+    console.error("--calls-per-day must be a positive integer");
+    return 2;
+  }
+  const expires = values.expires !== undefined ? new Date(values.expires) : undefined;
+  if (expires !== undefined && Number.isNaN(expires.getTime())) {
+    console.error("--expires must be an ISO date");
+    return 2;
+  }
+
+  const issued = generateToken();
+  const entry = {
+    id: values.id,
+    sha256: hashToken(issued),
+    models,
+    spendingCapUsd: cap,
+    maxCallsPerDay: callsPerDay,
+    expiresAt: expires?.toISOString(),
+  };
+  console.log(`Token (shown once, give it to the client as a bearer token):\n${issued}\n`);
+  console.log(`Add this entry to the "tokens" array of MCP_TOKENS_FILE:\n${JSON.stringify(entry, null, 2)}`);
+  return 0;
+}
+
+/** Runs a command line and returns the process exit code. */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (command === undefined || command === "-h" || command === "--help") {
+    console.log(USAGE);
+    return command === undefined ? 2 : 0;
+  }
+  if (isToolCommand(command)) {
+    return toolCommand(command, args);
+  }
+  if (command === "batch") {
+    return batch(args);
+  }
+  if (command === "token") {
+    return token(args);
+  }
+  console.error(`Unknown command: ${command}\n\n${USAGE}`);
+  return 2;
+}
+
+/** Runs a command line and exits with its code; shared by the nanobanana and nanobanana-mcp bins. */
+export function runCliAndExit(argv: string[]): void {
+  runCli(argv)
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      console.error(error instanceof ToolError ? `Error: ${error.message}` : error);
+      process.exit(error instanceof ToolError ? exitCode(error.category) : 1);
+    });
+}
+
+if (require.main === module) {
+  runCliAndExit(process.argv.slice(2));
+}
@@ -0,0 +1,335 @@
+import sharp from "sharp";
+import { z } from "zod";
+import { geminiJsonSchema } from "./analysis";
+import { ToolError } from "./errors";
+
+// Default per-pixel difference, on the 0-255 scale of the most changed
+// channel, above which a pixel counts as changed: ignores JPEG noise and
+// the slight color drift of a model's redraw
+export const DEFAULT_CHANGE_THRESHOLD = 32;
+
+// Regions are found on a grid of cells no finer than this many per side, so
+// scattered noise merges into blobs and large images stay fast
+const REGION_GRID = 128;
+
+// At most this many regions are reported, largest first
+const MAX_REGIONS = 20;
+
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+
+// A rectangle in pixels of the before image, in the shape edit_image's regions take
+export interface ChangedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Changed pixels within the rectangle */
+  changedPixels: number;
+}
+
+export interface ImageComparison {
+  before: { width: number; height: number };
+  after: { width: number; height: number };
+  /** Whether the after image was stretched to the before image's size to compare them */
+  resized: boolean;
+  /** Structural similarity of the luma channels, 1 for identical images */
+  ssim: number;
+  /** Peak signal-to-noise ratio over RGB in dB, or null for identical images */
+  psnr: number | null;
+  threshold: number;
+  /** Fraction of pixels whose largest channel difference exceeds threshold */
+  changedFraction: number;
+  regions: ChangedRegion[];
+}
+
+// Both images as RGB at the before image's size, flattened on white
+interface PixelPair {
+  width: number;
+  height: number;
+  before: Buffer;
+  after: Buffer;
+  comparison: Pick<ImageComparison, "before" | "after" | "resized">;
+}
+
+async function dimensions(image: Buffer, label: string): Promise<{ width: number; height: number }> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new ToolError(`Could not read the dimensions of the ${label} image`, "invalid_input");
+  }
+  return { width, height };
+}
+
+async function loadPixels(before: Buffer, after: Buffer): Promise<PixelPair> {
+  const beforeSize = await dimensions(before, "before");
+  const afterSize = await dimensions(after, "after");
+  const { width, height } = beforeSize;
+  const raw = (image: Buffer) =>
+    sharp(image).flatten({ background: "#ffffff" }).resize(width, height, { fit: "fill" }).removeAlpha().raw().toBuffer();
+  return {
+    width,
+    height,
+    before: await raw(before),
+    after: await raw(after),
+    comparison: {
+      before: beforeSize,
+      after: afterSize,
+      resized: afterSize.width !== width || afterSize.height !== height,
+    },
+  };
+}
+
+function luma(rgb: Buffer): Float64Array {
+  const values = new Float64Array(rgb.length / 3);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2];
+  }
+  return values;
+}
+
+// Window starts covering [0, size), ending flush with the far edge
+function windowStarts(size: number, window: number): number[] {
+  if (size <= window) {
+    return [0];
+  }
+  const starts: number[] = [];
+  for (let start = 0; start + window < size; start += SSIM_STRIDE) {
+    starts.push(start);
+  }
+  starts.push(size - window);
+  return starts;
+}
+
+/** Mean SSIM over sliding 8x8 windows of the luma channel, with the usual constants for 8-bit images. */
+function ssim(pixels: PixelPair): number {
+  const { width, height } = pixels;
+  const a = luma(pixels.before);
+  const b = luma(pixels.after);
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const windowWidth = Math.min(SSIM_WINDOW, width);
+  const windowHeight = Math.min(SSIM_WINDOW, height);
+
+  let total = 0;
+  let windows = 0;
+  for (const top of windowStarts(height, windowHeight)) {
+    for (const left of windowStarts(width, windowWidth)) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let y = top; y < top + windowHeight; y++) {
+        for (let x = left; x < left + windowWidth; x++) {
+          const va = a[y * width + x];
+          const vb = b[y * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const n = windowWidth * windowHeight;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + c1) * (2 * covariance + c2)) / ((meanA ** 2 + meanB ** 2 + c1) * (varA + varB + c2));
+      windows += 1;
+    }
+  }
+  return total / windows;
+}
+
+function psnr(pixels: PixelPair): number | null {
+  let squaredError = 0;
+  for (let i = 0; i < pixels.before.length; i++) {
+    squaredError += (pixels.before[i] - pixels.after[i]) ** 2;
+  }
+  const mse = squaredError / pixels.before.length;
+  return mse === 0 ? null : 10 * Math.log10((255 * 255) / mse);
+}
+
+// 1 for every pixel whose largest channel difference exceeds threshold
+function changeMask(pixels: PixelPair, threshold: number): Uint8Array {
+  const mask = new Uint8Array(pixels.width * pixels.height);
+  for (let i = 0; i < mask.length; i++) {
+    const difference = Math.max(
+      Math.abs(pixels.before[i * 3] - pixels.after[i * 3]),
+      Math.abs(pixels.before[i * 3 + 1] - pixels.after[i * 3 + 1]),
+      Math.abs(pixels.before[i * 3 + 2] - pixels.after[i * 3 + 2])
+    );
+    mask[i] = difference > threshold ? 1 : 0;
+  }
+  return mask;
+}
+
+/**
+ * Groups changed pixels into rectangles: pixels are counted per grid cell,
+ * touching cells with changes are joined (8-connected), and each group is
+ * reported as the tight bounding box of its changed pixels. Groups smaller
+ * than minPixels are dropped as noise.
+ */
+function changedRegions(mask: Uint8Array, width: number, height: number, minPixels: number): ChangedRegion[] {
+  const cell = Math.max(1, Math.ceil(Math.max(width, height) / REGION_GRID));
+  const columns = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
+  const counts = new Uint32Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        counts[Math.floor(y / cell) * columns + Math.floor(x / cell)] += 1;
+      }
+    }
+  }
+
+  const visited = new Uint8Array(counts.length);
+  const regions: ChangedRegion[] = [];
+  for (let start = 0; start < counts.length; start++) {
+    if (!counts[start] || visited[start]) {
+      continue;
+    }
+    const cells: number[] = [];
+    const queue = [start];
+    visited[start] = 1;
+    while (queue.length > 0) {
+      const current = queue.pop() as number;
+      cells.push(current);
+      const row = Math.floor(current / columns);
+      const column = current % columns;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          const neighbor = r * columns + c;
+          if (r >= 0 && r < rows && c >= 0 && c < columns && counts[neighbor] && !visited[neighbor]) {
+            visited[neighbor] = 1;
+            queue.push(neighbor);
+          }
+        }
+      }
+    }
+
+    // Tight box around the changed pixels of the group's cells
+    let left = width;
+    let top = height;
+    let right = -1;
+    let bottom = -1;
+    let changedPixels = 0;
+    for (const index of cells) {
+      const cellTop = Math.floor(index / columns) * cell;
+      const cellLeft = (index % columns) * cell;
+      for (let y = cellTop; y < Math.min(cellTop + cell, height); y++) {
+        for (let x = cellLeft; x < Math.min(cellLeft + cell, width); x++) {
+          if (mask[y * width + x]) {
+            left = Math.min(left, x);
+            top = Math.min(top, y);
+            right = Math.max(right, x);
+            bottom = Math.max(bottom, y);
+            changedPixels += 1;
+          }
+        }
+      }
+    }
+    if (changedPixels >= minPixels) {
+      regions.push({ x: left, y: top, width: right - left + 1, height: bottom - top + 1, changedPixels });
+    }
+  }
+  return regions.sort((a, b) => b.changedPixels - a.changedPixels).slice(0, MAX_REGIONS);
+}
+
+/**
+ * Compares an edited image (after) with the one it came from (before).
+ * Metrics are computed at the before image's size; an after image of
+ * another size is stretched to it first, and resized says so.
+ */
+export async function diffImages(
+  before: Buffer,
+  after: Buffer,
+  threshold = DEFAULT_CHANGE_THRESHOLD
+): Promise<{ comparison: ImageComparison; mask: Uint8Array }> {
+  const pixels = await loadPixels(before, after);
+  const mask = changeMask(pixels, threshold);
+  const changed = mask.reduce((sum, value) => sum + value, 0);
+  // Changes below 0.05% of the image (at least 4 pixels) are noise, not edits
+  const minPixels = Math.max(4, Math.round(pixels.width * pixels.height * 0.0005));
+  return {
+    comparison: {
+      ...pixels.comparison,
+      ssim: ssim(pixels),
+      psnr: psnr(pixels),
+      threshold,
+      changedFraction: changed / mask.length,
+      regions: changedRegions(mask, pixels.width, pixels.height, minPixels),
+    },
+    mask,
+  };
+}
+
+/**
+ * Renders a visual diff as PNG: the before image faded to grey, changed
+ * pixels in red and every changed region outlined.
+ */
+export async function renderDiffImage(before: Buffer, comparison: ImageComparison, mask: Uint8Array): Promise<Buffer> {
+  const { width, height } = comparison.before;
+  const grey = await sharp(before)
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .linear(0.4, 153)
+    .raw()
+    .toBuffer();
+
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < mask.length; i++) {
+    const [red, green, blue] = mask[i] ? [230, 30, 30] : [grey[i], grey[i], grey[i]];
+    pixels[i * 3] = red;
+    pixels[i * 3 + 1] = green;
+    pixels[i * 3 + 2] = blue;
+  }
+
+  const stroke = Math.max(1, Math.round(Math.max(width, height) / 256));
+  const outlines = comparison.regions
+    .map(
+      (region) =>
+        `<rect x="${region.x}" y="${region.y}" width="${region.width}" height="${region.height}" fill="none" stroke="#ff00ff" stroke-width="${stroke}"/>`
+    )
+    .join("");
+  const overlay = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${outlines}</svg>`);
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } })
+    .composite([{ input: overlay }])
+    .png()
+    .toBuffer();
+}
+
+// The structured verdict compare_images asks Gemini for
+const verdictSchema = z.object({
+  requestedChangePresent: z.boolean().describe("Whether the after image shows the requested change"),
+  unrelatedChanges: z.array(z.string()).describe("Changes to the image that were not requested, empty if none"),
+  verdict: z.enum(["pass", "fail"]).describe("pass when the requested change is present and nothing else changed"),
+  explanation: z.string(),
+});
+
+export type Verdict = z.infer<typeof verdictSchema>;
+
+export function verdictJsonSchema(): Record<string, unknown> {
+  return geminiJsonSchema(verdictSchema);
+}
+
+// The question sent with both images; the pixel findings point the model at where to look
+export function verificationPrompt(expectedChange: string, comparison: ImageComparison): string {
+  const regions =
+    comparison.regions.length > 0
+      ? comparison.regions.map((region) => `${region.width}x${region.height} at (${region.x}, ${region.y})`).join("; ")
+      : "none";
+  return [
+    "The first image is the original, the second the result of editing it with this request:",
+    expectedChange,
+    "",
+    "Does the second image contain the requested change, and nothing else? Ignore slight differences in color, sharpness and compression across the whole image.",
+    `A pixel comparison found changes in ${(comparison.changedFraction * 100).toFixed(2)}% of the image, in these regions (width x height at x, y, in pixels of a ${comparison.before.width}x${comparison.before.height} image): ${regions}.`,
+  ].join("\n");
+}
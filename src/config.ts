@@ -0,0 +1,197 @@
+import * as fs from "fs";
+import { GoogleGenAI } from "@google/genai";
+import { z } from "zod";
+import { CacheSettings, cacheSettingsFromEnv } from "./cache";
+import { ToolError } from "./errors";
+import { DEFAULT_URL_POLICY, UrlPolicy, urlPolicyFromEnv } from "./fetch";
+import { ALLOWED_MODELS, DEFAULT_MODEL, GeminiClient, GeminiModel } from "./gemini";
+import { ReplayGeminiClient } from "./replay";
+import { CallPolicy, DEFAULT_CALL_POLICY, callPolicyFromEnv } from "./retry";
+import { DEFAULT_SANDBOX_SETTINGS, OVERWRITE_POLICIES, SandboxSettings, sandboxSettingsFromEnv } from "./sandbox";
+import { DEFAULT_PRICES, UsageSettings, priceTableSchema, usageSettingsFromEnv } from "./usage";
+
+export const BACKENDS = ["gemini", "vertex", "replay"] as const;
+
+export type Backend = (typeof BACKENDS)[number];
+
+// Settings of the stdio server, from the JSON file named by NANOBANANA_CONFIG
+// and environment variables (which take precedence)
+export interface ServerConfig {
+  /**
+   * gemini: Google AI Studio API key; vertex: Vertex AI with Application
+   * Default Credentials; replay: recorded responses from replayFile, no network
+   */
+  backend: Backend;
+  apiKey?: string;
+  project?: string;
+  location: string;
+  /** Service account key file for Vertex AI, instead of the ambient credentials */
+  credentialsFile?: string;
+  /** Recorded Gemini responses for the replay backend */
+  replayFile?: string;
+  defaultModel: GeminiModel;
+  /** Timeout, retry and concurrency limits for Gemini requests */
+  callPolicy: CallPolicy;
+  /** Price table and spending cap for usage accounting */
+  usage: UsageSettings;
+  /** On-disk cache of Gemini responses; disabled when undefined */
+  cache?: CacheSettings;
+  /** Size, time and network limits for input image URLs */
+  urlPolicy: UrlPolicy;
+  /** Directories local paths must stay within, and what happens to existing output files */
+  sandbox: SandboxSettings;
+  /** Directory of style files extending the built-in styles */
+  stylesDir?: string;
+}
+
+const configFileSchema = z
+  .object({
+    backend: z.enum(BACKENDS),
+    apiKey: z.string(),
+    project: z.string(),
+    location: z.string(),
+    credentialsFile: z.string(),
+    replayFile: z.string(),
+    defaultModel: z.enum(ALLOWED_MODELS),
+    timeoutMs: z.number().int().min(1),
+    maxRetries: z.number().int().min(0),
+    maxConcurrency: z.number().int().min(1),
+    prices: priceTableSchema,
+    spendingCapUsd: z.number().min(0),
+    cacheDir: z.string(),
+    cacheTtlHours: z.number().positive(),
+    cacheMaxMb: z.number().positive(),
+    fetchMaxMb: z.number().positive(),
+    fetchTimeoutMs: z.number().int().positive(),
+    fetchAllowPrivate: z.boolean(),
+    fetchAllowedHosts: z.array(z.string()),
+    allowedDirs: z.array(z.string()),
+    overwrite: z.enum(OVERWRITE_POLICIES),
+    stylesDir: z.string(),
+  })
+  .partial()
+  .strict();
+
+const DEFAULT_VERTEX_LOCATION = "global";
+
+function readConfigFile(configPath: string): z.infer<typeof configFileSchema> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read config file ${configPath}: ${message}`);
+  }
+  const parsed = configFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${configPath}: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+function parseEnum<T extends string>(name: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Invalid ${name}: ${value}. Allowed values: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+/**
+ * Resolves the server configuration. Recognized environment variables:
+ * NANOBANANA_BACKEND, NANOBANANA_MODEL, GEMINI_API_KEY, GOOGLE_CLOUD_PROJECT,
+ * GOOGLE_CLOUD_LOCATION, GOOGLE_APPLICATION_CREDENTIALS,
+ * GOOGLE_GENAI_USE_VERTEXAI (same as NANOBANANA_BACKEND=vertex),
+ * NANOBANANA_REPLAY_FILE,
+ * GEMINI_TIMEOUT_MS, GEMINI_MAX_RETRIES, GEMINI_MAX_CONCURRENCY,
+ * NANOBANANA_PRICES, NANOBANANA_SPENDING_CAP_USD, NANOBANANA_CACHE_DIR,
+ * NANOBANANA_CACHE_TTL_HOURS, NANOBANANA_CACHE_MAX_MB,
+ * NANOBANANA_FETCH_MAX_MB, NANOBANANA_FETCH_TIMEOUT_MS,
+ * NANOBANANA_FETCH_ALLOW_PRIVATE, NANOBANANA_FETCH_ALLOWED_HOSTS,
+ * NANOBANANA_ALLOWED_DIRS, NANOBANANA_OVERWRITE and NANOBANANA_STYLES_DIR.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const file = env.NANOBANANA_CONFIG ? readConfigFile(env.NANOBANANA_CONFIG) : {};
+
+  const useVertex = env.GOOGLE_GENAI_USE_VERTEXAI === "true" || env.GOOGLE_GENAI_USE_VERTEXAI === "1";
+  const backend =
+    parseEnum("NANOBANANA_BACKEND", env.NANOBANANA_BACKEND, BACKENDS) ??
+    (useVertex ? "vertex" : undefined) ??
+    file.backend ??
+    "gemini";
+
+  return {
+    backend,
+    apiKey: env.GEMINI_API_KEY || file.apiKey,
+    project: env.GOOGLE_CLOUD_PROJECT || file.project,
+    location: env.GOOGLE_CLOUD_LOCATION || file.location || DEFAULT_VERTEX_LOCATION,
+    credentialsFile: env.GOOGLE_APPLICATION_CREDENTIALS || file.credentialsFile,
+    replayFile: env.NANOBANANA_REPLAY_FILE || file.replayFile,
+    defaultModel: parseEnum("NANOBANANA_MODEL", env.NANOBANANA_MODEL, ALLOWED_MODELS) ?? file.defaultModel ?? DEFAULT_MODEL,
+    callPolicy: callPolicyFromEnv(env, {
+      ...DEFAULT_CALL_POLICY,
+      timeoutMs: file.timeoutMs ?? DEFAULT_CALL_POLICY.timeoutMs,
+      maxRetries: file.maxRetries ?? DEFAULT_CALL_POLICY.maxRetries,
+      maxConcurrency: file.maxConcurrency ?? DEFAULT_CALL_POLICY.maxConcurrency,
+    }),
+    usage: usageSettingsFromEnv(env, {
+      prices: { ...DEFAULT_PRICES, ...file.prices },
+      spendingCapUsd: file.spendingCapUsd,
+    }),
+    cache: cacheSettingsFromEnv(env, {
+      dir: file.cacheDir,
+      ttlMs: file.cacheTtlHours !== undefined ? file.cacheTtlHours * 60 * 60 * 1000 : undefined,
+      maxBytes: file.cacheMaxMb !== undefined ? file.cacheMaxMb * 1024 * 1024 : undefined,
+    }),
+    urlPolicy: urlPolicyFromEnv(env, {
+      maxBytes: file.fetchMaxMb !== undefined ? Math.floor(file.fetchMaxMb * 1024 * 1024) : DEFAULT_URL_POLICY.maxBytes,
+      timeoutMs: file.fetchTimeoutMs ?? DEFAULT_URL_POLICY.timeoutMs,
+      allowPrivateNetworks: file.fetchAllowPrivate ?? DEFAULT_URL_POLICY.allowPrivateNetworks,
+      allowedHosts: file.fetchAllowedHosts?.map((host) => host.toLowerCase()),
+    }),
+    sandbox: sandboxSettingsFromEnv(env, {
+      allowedDirs: file.allowedDirs,
+      overwrite: file.overwrite ?? DEFAULT_SANDBOX_SETTINGS.overwrite,
+    }),
+    stylesDir: env.NANOBANANA_STYLES_DIR || file.stylesDir,
+  };
+}
+
+export function createGeminiClient(config: ServerConfig): GeminiClient {
+  if (config.backend === "replay") {
+    if (!config.replayFile) {
+      throw new ToolError(
+        "NANOBANANA_REPLAY_FILE environment variable (or \"replayFile\" in the config file) is required for the replay backend.",
+        "auth"
+      );
+    }
+    return ReplayGeminiClient.fromFile(config.replayFile);
+  }
+
+  if (config.backend === "vertex") {
+    if (!config.project) {
+      throw new ToolError(
+        "GOOGLE_CLOUD_PROJECT environment variable (or \"project\" in the config file) is required for the Vertex AI backend.",
+        "auth"
+      );
+    }
+    return new GoogleGenAI({
+      vertexai: true,
+      project: config.project,
+      location: config.location,
+      googleAuthOptions: config.credentialsFile ? { keyFilename: config.credentialsFile } : undefined,
+    });
+  }
+
+  if (!config.apiKey) {
+    throw new ToolError(
+      "GEMINI_API_KEY environment variable is required. " +
+      "Get your API key from https://aistudio.google.com/app/apikey " +
+      "or set NANOBANANA_BACKEND=vertex to use Vertex AI.",
+      "auth"
+    );
+  }
+  return new GoogleGenAI({ apiKey: config.apiKey });
+}
@@ -0,0 +1,135 @@
+import { ApiError } from "@google/genai";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * What kind of failure a tool call ran into, so agents can decide whether to
+ * retry, rephrase or fix their arguments:
+ * - quota: rate limit or quota exhausted, even after retrying
+ * - safety: the prompt or output was blocked by safety filters
+ * - no_image: the model answered without an image, e.g. asking for clarification or declining in text
+ * - invalid_input: bad arguments, missing files or a request Gemini rejected
+ * - auth: missing, invalid or unauthorized credentials
+ * - transient: server or network trouble that persisted through retries
+ * - timeout: the model did not answer within the configured timeout
+ * - cancelled: the client cancelled the request
+ * - internal: anything else
+ */
+export type ErrorCategory =
+  | "quota"
+  | "safety"
+  | "no_image"
+  | "invalid_input"
+  | "auth"
+  | "transient"
+  | "timeout"
+  | "cancelled"
+  | "internal";
+
+// What Gemini reported about a response that carried no usable output
+export interface BlockDetails {
+  blockReason?: string;
+  finishReason?: string;
+  /** Gemini's explanation of the block or finish reason, when it gives one */
+  finishMessage?: string;
+  /** Harm categories Gemini flagged, e.g. DANGEROUS_CONTENT */
+  safetyCategories?: string[];
+  /** Text the model replied with instead of the requested output */
+  modelText?: string;
+}
+
+export class ToolError extends Error {
+  constructor(
+    message: string,
+    readonly category: ErrorCategory,
+    readonly retryable = false,
+    readonly details: BlockDetails = {}
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+// Network failures from fetch surface as TypeErrors or Node system errors
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "ENOTFOUND", "EPIPE"];
+
+function isNetworkError(error: Error): boolean {
+  const { code, cause } = error as { code?: string; cause?: { code?: string } };
+  const errorCode = code ?? cause?.code;
+  return (error instanceof TypeError && error.message.includes("fetch failed")) || NETWORK_ERROR_CODES.includes(errorCode ?? "");
+}
+
+export function classifyError(error: unknown): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) {
+      return new ToolError(message, "quota", true);
+    }
+    if (error.status === 401 || error.status === 403) {
+      return new ToolError(message, "auth");
+    }
+    if (error.status === 408 || error.status >= 500) {
+      return new ToolError(message, "transient", true);
+    }
+    if (error.status >= 400) {
+      return new ToolError(message, "invalid_input");
+    }
+  }
+  if (error instanceof Error && isNetworkError(error)) {
+    return new ToolError(message, "transient", true);
+  }
+  return new ToolError(message, "internal");
+}
+
+// One "Label: value" line per reported detail, in a fixed order
+function describeDetails(details: BlockDetails): string[] {
+  const lines: string[] = [];
+  if (details.blockReason) {
+    lines.push(`Block reason: ${details.blockReason}`);
+  }
+  if (details.finishReason) {
+    lines.push(`Finish reason: ${details.finishReason}`);
+  }
+  if (details.finishMessage) {
+    lines.push(`Finish message: ${details.finishMessage}`);
+  }
+  if (details.safetyCategories && details.safetyCategories.length > 0) {
+    lines.push(`Safety categories: ${details.safetyCategories.join(", ")}`);
+  }
+  if (details.modelText) {
+    lines.push(`Model text: ${details.modelText}`);
+  }
+  return lines;
+}
+
+// The isError result returned to the agent for a failed tool call: the
+// details as text lines, and as structuredContent.error for programs
+export function toolErrorResult(error: unknown): CallToolResult {
+  const toolError = classifyError(error);
+  const lines = [
+    `Error: ${toolError.message}`,
+    `Category: ${toolError.category}`,
+    `Retryable: ${toolError.retryable ? "yes" : "no"}`,
+    ...describeDetails(toolError.details),
+  ];
+  return {
+    content: [
+      {
+        type: "text",
+        text: lines.join("\n"),
+      },
+    ],
+    structuredContent: {
+      error: {
+        message: toolError.message,
+        category: toolError.category,
+        retryable: toolError.retryable,
+        ...toolError.details,
+      },
+    },
+    isError: true,
+  };
+}
@@ -0,0 +1,229 @@
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import { ToolError } from "./errors";
+
+// Limits for downloading input images from URLs supplied by tool callers
+export interface UrlPolicy {
+  /** Downloads are aborted once the body grows beyond this */
+  maxBytes: number;
+  /** Time allowed for the whole download, redirects included */
+  timeoutMs: number;
+  /** Whether URLs may reach loopback, private, link-local (cloud metadata) and other non-public addresses */
+  allowPrivateNetworks: boolean;
+  /** Hostnames URLs may point to, with "*.example.com" matching subdomains; any host when undefined */
+  allowedHosts?: string[];
+}
+
+export const DEFAULT_URL_POLICY: UrlPolicy = {
+  maxBytes: 20 * 1024 * 1024,
+  timeoutMs: 30_000,
+  allowPrivateNetworks: false,
+};
+
+const MAX_REDIRECTS = 5;
+
+function parsePositiveNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: ${value}. Expected a positive number`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads URL fetching limits from NANOBANANA_FETCH_MAX_MB,
+ * NANOBANANA_FETCH_TIMEOUT_MS, NANOBANANA_FETCH_ALLOW_PRIVATE and
+ * NANOBANANA_FETCH_ALLOWED_HOSTS (comma-separated) over base.
+ */
+export function urlPolicyFromEnv(env: NodeJS.ProcessEnv, base: UrlPolicy = DEFAULT_URL_POLICY): UrlPolicy {
+  const maxMb = parsePositiveNumber("NANOBANANA_FETCH_MAX_MB", env.NANOBANANA_FETCH_MAX_MB);
+  const allowedHosts = env.NANOBANANA_FETCH_ALLOWED_HOSTS?.split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return {
+    maxBytes: maxMb !== undefined ? Math.floor(maxMb * 1024 * 1024) : base.maxBytes,
+    timeoutMs: parsePositiveNumber("NANOBANANA_FETCH_TIMEOUT_MS", env.NANOBANANA_FETCH_TIMEOUT_MS) ?? base.timeoutMs,
+    allowPrivateNetworks: env.NANOBANANA_FETCH_ALLOW_PRIVATE
+      ? env.NANOBANANA_FETCH_ALLOW_PRIVATE === "true"
+      : base.allowPrivateNetworks,
+    allowedHosts: allowedHosts?.length ? allowedHosts : base.allowedHosts,
+  };
+}
+
+// Addresses a public server has no business fetching from: loopback,
+// RFC 1918, carrier-grade NAT, link-local (169.254.169.254 is the cloud
+// metadata service), unique local IPv6, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+function hostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((allowed) =>
+    allowed.startsWith("*.") ? hostname.endsWith(allowed.slice(1)) : hostname === allowed
+  );
+}
+
+// Checked for the original URL and every redirect target
+function checkUrl(url: URL, policy: UrlPolicy): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ToolError(`Unsupported URL scheme: ${url.protocol} (only http and https images can be fetched)`, "invalid_input");
+  }
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (policy.allowedHosts && !hostAllowed(hostname, policy.allowedHosts)) {
+    throw new ToolError(`Host ${hostname} is not in the allowed hosts for image URLs`, "invalid_input");
+  }
+  if (!policy.allowPrivateNetworks && isPrivateAddress(hostname)) {
+    throw new ToolError(`Image URL points to a private or reserved address: ${hostname}`, "invalid_input");
+  }
+}
+
+/**
+ * Resolves hostnames like dns.lookup but fails when any address is private,
+ * so the check applies to the address actually connected to (DNS rebinding
+ * cannot swap in another one between check and connect).
+ */
+function guardedLookup(policy: UrlPolicy): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, "");
+        return;
+      }
+      const blocked = policy.allowPrivateNetworks
+        ? undefined
+        : addresses.find((entry) => isPrivateAddress(entry.address));
+      if (blocked) {
+        callback(
+          new ToolError(`Image URL host ${hostname} resolves to a private or reserved address: ${blocked.address}`, "invalid_input"),
+          ""
+        );
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+function request(url: URL, policy: UrlPolicy, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const get = url.protocol === "https:" ? https.get : http.get;
+  return new Promise((resolve, reject) => {
+    const req = get(url, { lookup: guardedLookup(policy), signal, headers: { Accept: "image/*" } }, resolve);
+    req.on("error", reject);
+  });
+}
+
+export function describeByteLimit(maxBytes: number): string {
+  return `${Number((maxBytes / 1024 / 1024).toFixed(2))} MB`;
+}
+
+async function readBody(response: http.IncomingMessage, maxBytes: number, url: string): Promise<Buffer> {
+  const tooLarge = () =>
+    new ToolError(`Image at ${url} is larger than the ${describeByteLimit(maxBytes)} download limit`, "invalid_input");
+  const declared = Number(response.headers["content-length"]);
+  if (declared > maxBytes) {
+    response.destroy();
+    throw tooLarge();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// A downloaded body and the content type the server claimed for it
+export interface FetchedBody {
+  body: Buffer;
+  contentType?: string;
+}
+
+/**
+ * Downloads a URL within the policy: only http(s), only allowed hosts, no
+ * private addresses (checked after DNS resolution and again on every
+ * redirect), at most maxBytes (streaming, so oversized bodies are cut off)
+ * and within timeoutMs.
+ */
+export async function fetchUrl(url: string, policy: UrlPolicy = DEFAULT_URL_POLICY): Promise<FetchedBody> {
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    throw new ToolError(`Invalid image URL: ${url}`, "invalid_input");
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+  try {
+    for (let redirects = 0; ; redirects++) {
+      checkUrl(current, policy);
+      const response = await request(current, policy, controller.signal);
+      const status = response.statusCode ?? 0;
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new ToolError(`Too many redirects fetching image from URL: ${url}`, "invalid_input");
+        }
+        current = new URL(response.headers.location, current);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new ToolError(`Failed to fetch image from URL: ${url} (${status} ${response.statusMessage})`, "invalid_input");
+      }
+      return { body: await readBody(response, policy.maxBytes, url), contentType: response.headers["content-type"] };
+    }
+  } catch (error) {
+    if (error instanceof ToolError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new ToolError(`Timed out after ${policy.timeoutMs} ms fetching image from URL: ${url}`, "timeout", true);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ToolError(`Failed to fetch image from URL: ${url} (${message})`, "invalid_input");
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,118 @@
+import * as path from "path";
+import sharp from "sharp";
+import { ToolError } from "./errors";
+import { readImageInfo } from "./images";
+
+export const OUTPUT_FORMATS = ["png", "jpeg", "webp"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * How an image is brought to exact dimensions when both width and height are
+ * given: crop fills the box and cuts off the overflow, pad fits the image
+ * inside and fills the rest with padColor, stretch ignores the aspect ratio.
+ */
+export const FIT_MODES = ["crop", "pad", "stretch"] as const;
+
+export type FitMode = (typeof FIT_MODES)[number];
+
+// Post-processing requested for the images a tool call produces
+export interface OutputOptions {
+  format?: OutputFormat;
+  /** Encoder quality for JPEG and WebP, 1-100 */
+  quality?: number;
+  width?: number;
+  height?: number;
+  fit?: FitMode;
+  /** Background for pad, as a CSS color (default: transparent for PNG/WebP, white for JPEG) */
+  padColor?: string;
+}
+
+const MIME_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+const FORMATS_BY_EXTENSION: Record<string, OutputFormat> = {
+  ".png": "png",
+  ".jpg": "jpeg",
+  ".jpeg": "jpeg",
+  ".webp": "webp",
+};
+
+const EXTENSIONS: Record<OutputFormat, string> = {
+  png: ".png",
+  jpeg: ".jpg",
+  webp: ".webp",
+};
+
+// The format a file name implies, if its extension is one we can write
+export function formatFromPath(filePath: string): OutputFormat | undefined {
+  return FORMATS_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+export function mimeTypeForFormat(format: OutputFormat): string {
+  return MIME_TYPES[format];
+}
+
+export function formatFromMimeType(mimeType: string): OutputFormat | undefined {
+  return OUTPUT_FORMATS.find((format) => MIME_TYPES[format] === mimeType);
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  const format = formatFromMimeType(mimeType);
+  return format ? EXTENSIONS[format] : ".png";
+}
+
+const FIT: Record<FitMode, "cover" | "contain" | "fill"> = {
+  crop: "cover",
+  pad: "contain",
+  stretch: "fill",
+};
+
+/**
+ * Converts and resizes an output image in-process with sharp. Without a
+ * target format the image keeps the format Gemini returned; an image that
+ * needs neither conversion nor resizing is returned byte for byte.
+ */
+export async function processOutput(
+  image: Buffer,
+  options: OutputOptions
+): Promise<{ image: Buffer; mimeType: string }> {
+  const sourceMimeType = readImageInfo(image)?.mimeType ?? (await detectMimeType(image));
+  const format = options.format ?? formatFromMimeType(sourceMimeType) ?? "png";
+  const resize = options.width !== undefined || options.height !== undefined;
+  const reencode = format !== formatFromMimeType(sourceMimeType) || (options.quality !== undefined && format !== "png");
+
+  if (!resize && !reencode) {
+    return { image, mimeType: sourceMimeType };
+  }
+
+  try {
+    let pipeline = sharp(image);
+    if (resize) {
+      const fit = options.fit ?? "crop";
+      const padColor = options.padColor ?? (format === "jpeg" ? "#ffffff" : { r: 0, g: 0, b: 0, alpha: 0 });
+      pipeline = pipeline.resize({ width: options.width, height: options.height, fit: FIT[fit], background: padColor });
+    }
+    if (format === "jpeg") {
+      // JPEG has no alpha channel, so transparent areas become the pad color
+      pipeline = pipeline.flatten({ background: options.padColor ?? "#ffffff" }).jpeg({ quality: options.quality });
+    } else if (format === "webp") {
+      pipeline = pipeline.webp({ quality: options.quality });
+    } else {
+      pipeline = pipeline.png();
+    }
+    return { image: await pipeline.toBuffer(), mimeType: MIME_TYPES[format] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ToolError(`Could not convert the output image: ${message}`, "invalid_input");
+  }
+}
+
+// Fallback for formats readImageInfo does not parse (e.g. GIF or AVIF)
+async function detectMimeType(image: Buffer): Promise<string> {
+  const { format } = await sharp(image).metadata();
+  return format ? `image/${format}` : "application/octet-stream";
+}
@@ -0,0 +1,282 @@
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GoogleGenAI,
+  HarmBlockThreshold,
+  HarmCategory,
+  ImageConfig,
+  SafetyRating,
+  SafetySetting,
+} from "@google/genai";
+import { CacheLookup } from "./cache";
+import { BlockDetails, ToolError } from "./errors";
+import { GeminiCaller } from "./retry";
+import { CallUsage } from "./usage";
+
+// Helper type for extracting inline data from Gemini responses
+interface InlineDataPart {
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+}
+
+/**
+ * The part of the Gemini SDK the tools use. GoogleGenAI satisfies it; tests
+ * and NANOBANANA_BACKEND=replay substitute a ReplayGeminiClient.
+ */
+export interface GeminiClient {
+  models: Pick<GoogleGenAI["models"], "generateContent">;
+}
+
+// A single part of a multimodal Gemini request
+export type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export const ALLOWED_MODELS = [
+  "gemini-2.5-flash-image",
+  "gemini-3.1-flash-lite-image",
+  "gemini-3.1-flash-image",
+  "gemini-3-pro-image",
+] as const;
+
+export type GeminiModel = (typeof ALLOWED_MODELS)[number];
+
+export const DEFAULT_MODEL: GeminiModel = "gemini-3.1-flash-image";
+
+export const ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"] as const;
+
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+
+export const IMAGE_SIZES = ["1K", "2K", "4K"] as const;
+
+export type ImageSize = (typeof IMAGE_SIZES)[number];
+
+// Models that accept an output resolution other than their 1K default
+const IMAGE_SIZE_MODELS: readonly GeminiModel[] = ["gemini-3.1-flash-image", "gemini-3-pro-image"];
+
+/**
+ * Builds the Gemini image config for an image-producing call. Omitted values
+ * are left out so the model falls back to its own defaults (e.g. the input
+ * image's aspect ratio when editing).
+ */
+export function buildImageConfig(
+  model: GeminiModel,
+  aspectRatio: string | undefined,
+  imageSize: ImageSize | undefined
+): ImageConfig {
+  const imageConfig: ImageConfig = {};
+  if (aspectRatio) {
+    imageConfig.aspectRatio = aspectRatio;
+  }
+  if (imageSize) {
+    if (!IMAGE_SIZE_MODELS.includes(model)) {
+      throw new ToolError(
+        `Model ${model} does not support imageSize. Use one of: ${IMAGE_SIZE_MODELS.join(", ")}`,
+        "invalid_input"
+      );
+    }
+    imageConfig.imageSize = imageSize;
+  }
+  return imageConfig;
+}
+
+// Finish reasons that mean the safety filters withheld the output
+const SAFETY_FINISH_REASONS = [
+  "SAFETY",
+  "BLOCKLIST",
+  "PROHIBITED_CONTENT",
+  "SPII",
+  "IMAGE_SAFETY",
+  "IMAGE_PROHIBITED_CONTENT",
+];
+
+export function isSafetyFinishReason(finishReason: string | undefined): boolean {
+  return finishReason !== undefined && SAFETY_FINISH_REASONS.includes(finishReason);
+}
+
+export const SAFETY_THRESHOLDS = [
+  "BLOCK_NONE",
+  "BLOCK_ONLY_HIGH",
+  "BLOCK_MEDIUM_AND_ABOVE",
+  "BLOCK_LOW_AND_ABOVE",
+  "OFF",
+] as const;
+
+export type SafetyThreshold = (typeof SAFETY_THRESHOLDS)[number];
+
+// Harm categories a safety threshold can be set for
+const ADJUSTABLE_HARM_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+/**
+ * Applies one blocking threshold to every adjustable harm category. Without
+ * a threshold the request keeps Gemini's defaults.
+ */
+export function buildSafetySettings(threshold: SafetyThreshold | undefined): SafetySetting[] | undefined {
+  if (!threshold) {
+    return undefined;
+  }
+  return ADJUSTABLE_HARM_CATEGORIES.map((category) => ({
+    category,
+    threshold: threshold as HarmBlockThreshold,
+  }));
+}
+
+// Harm categories Gemini blocked on or rated at least MEDIUM, without the HARM_CATEGORY_ prefix
+function flaggedCategories(ratings: SafetyRating[] | undefined): string[] {
+  return (ratings ?? [])
+    .filter((rating) => rating.blocked || rating.probability === "MEDIUM" || rating.probability === "HIGH")
+    .map((rating) => String(rating.category ?? "UNSPECIFIED").replace(/^HARM_CATEGORY_/, ""));
+}
+
+// A response without candidates is either a blocked prompt or an empty answer
+function noCandidatesError(response: GenerateContentResponse): ToolError {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    return new ToolError(`Prompt blocked by Gemini safety filters (${feedback.blockReason})`, "safety", false, {
+      blockReason: feedback.blockReason,
+      finishMessage: feedback.blockReasonMessage,
+      safetyCategories: flaggedCategories(feedback.safetyRatings),
+    });
+  }
+  return new ToolError("No candidates returned from Gemini API", "internal");
+}
+
+// One image returned by Gemini, or a request that produced none, with the
+// text parts, finish reason and flagged harm categories of the candidate it
+// came from
+export interface ImageVariant {
+  image: Buffer | null;
+  text: string[];
+  finishReason?: string;
+  finishMessage?: string;
+  safetyCategories?: string[];
+  error?: string;
+}
+
+/**
+ * Collects every image from every candidate in a response. A candidate
+ * without any image still yields one variant so its text and finish reason
+ * can be reported.
+ */
+export function extractVariants(response: GenerateContentResponse): ImageVariant[] {
+  if (!response.candidates || response.candidates.length === 0) {
+    throw noCandidatesError(response);
+  }
+
+  const variants: ImageVariant[] = [];
+  for (const candidate of response.candidates) {
+    const parts = candidate.content?.parts ?? [];
+    const text = parts
+      .filter((part) => typeof part.text === "string" && !part.thought)
+      .map((part) => part.text as string);
+    const details = {
+      text,
+      finishReason: candidate.finishReason,
+      finishMessage: candidate.finishMessage,
+      safetyCategories: flaggedCategories(candidate.safetyRatings),
+    };
+
+    const images = parts
+      .map((part) => (part as InlineDataPart).inlineData)
+      .filter((inlineData): inlineData is NonNullable<InlineDataPart["inlineData"]> => inlineData !== undefined);
+
+    if (images.length === 0) {
+      variants.push({ image: null, ...details });
+    }
+    for (const inlineData of images) {
+      variants.push({ image: Buffer.from(inlineData.data, "base64"), ...details });
+    }
+  }
+  return variants;
+}
+
+function blockDetails(variant: ImageVariant): BlockDetails {
+  return {
+    finishReason: variant.finishReason,
+    finishMessage: variant.finishMessage,
+    safetyCategories: variant.safetyCategories,
+    modelText: variant.text.length > 0 ? variant.text.join(" ") : undefined,
+  };
+}
+
+/**
+ * The error for a call that returned no usable output, explaining why: a
+ * safety error if the filters withheld it, a no_image error carrying the
+ * model's reply if it answered in text, otherwise a generic one. what names
+ * the missing output ("image" or "text").
+ */
+export function noOutputError(variants: ImageVariant[], what: "image" | "text" = "image"): ToolError {
+  const blocked = variants.find((variant) => isSafetyFinishReason(variant.finishReason));
+  if (blocked) {
+    const label = what === "image" ? "Image" : "Response";
+    return new ToolError(
+      `${label} blocked by Gemini safety filters (${blocked.finishReason})`,
+      "safety",
+      false,
+      blockDetails(blocked)
+    );
+  }
+  const replied = variants.find((variant) => variant.text.length > 0);
+  if (replied && what === "image") {
+    return new ToolError("Gemini replied with text instead of an image", "no_image", false, blockDetails(replied));
+  }
+  const [first] = variants;
+  return new ToolError(`No ${what} data returned from Gemini API`, "internal", false, first ? blockDetails(first) : {});
+}
+
+/**
+ * Sends the same image request count times in parallel through the caller,
+ * adding their token usage to usage, and returns one variant per request in
+ * request order, so variant n always comes from request n. A response with
+ * several images keeps the first. Individual failed requests are reported as
+ * variants without an image; the call only fails if no image came back at
+ * all. With a cache, each variant has its own cache entry.
+ */
+export async function generateImageVariants(
+  caller: GeminiCaller,
+  genai: GeminiClient,
+  request: GenerateContentParameters,
+  count: number,
+  usage: CallUsage,
+  cache?: Omit<CacheLookup, "variant">
+): Promise<ImageVariant[]> {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, index) =>
+      caller.generateContent(genai, request, usage, cache && { ...cache, variant: count > 1 ? index + 1 : undefined })
+    )
+  );
+
+  const variants: ImageVariant[] = [];
+  for (const result of results) {
+    if (result.status === "fulfilled") {
+      const extracted = extractVariants(result.value);
+      variants.push(extracted.find((variant) => variant.image) ?? extracted[0]);
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      variants.push({ image: null, text: [], error });
+    }
+  }
+
+  if (!variants.some((variant) => variant.image)) {
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (failed && results.every((result) => result.status === "rejected")) {
+      throw failed.reason;
+    }
+    throw noOutputError(variants);
+  }
+  return variants;
+}
+
+export function extractText(response: GenerateContentResponse): string {
+  const variants = extractVariants(response);
+  const [first] = variants;
+  if (first.text.length === 0) {
+    throw noOutputError(variants, "text");
+  }
+  return first.text.join("\n");
+}
@@ -0,0 +1,234 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { createMcpHandler, withMcpAuth } from "mcp-handler";
+import { GoogleGenAI } from "@google/genai";
+import { ApiKeyPool, TokenPolicy, TokenVerifier, authSettingsFromEnv } from "./auth";
+import { ResultCache, cacheSettingsFromEnv } from "./cache";
+import { ToolError } from "./errors";
+import { urlPolicyFromEnv } from "./fetch";
+import { extensionForMimeType } from "./formats";
+import { GeminiClient } from "./gemini";
+import { BlobJobStore, InMemoryJobStore, JobStore, jobModeFromEnv } from "./jobs";
+import { OutputStore } from "./outputs";
+import { SERVER_NAME, SERVER_VERSION } from "./provenance";
+import { GeminiCaller, callPolicyFromEnv } from "./retry";
+import { BlobSessionStore, InMemorySessionStore, SessionStore } from "./sessions";
+import { createImageStorage, storageKey, storageOptionsFromEnv } from "./storage";
+import { StyleLibrary } from "./styles";
+import { registerTools, ToolTransport } from "./tools";
+import { UsageLedger, usageSettingsFromEnv } from "./usage";
+
+export interface HttpHandlerOptions {
+  /** Builds the Gemini client for an API key (default: a GoogleGenAI client); tests pass a ReplayGeminiClient. */
+  createGeminiClient?: (apiKey: string) => GeminiClient;
+  /** Keeps the function alive until a background job has finished (e.g. next/server's after); without it jobs just run on. */
+  waitUntil?: (work: Promise<void>) => void;
+}
+
+// Who the current request is on behalf of
+interface Caller {
+  /** Hash identifying the caller, used to scope outputs, sessions, usage and cache entries */
+  id: string;
+  /** The caller's own Gemini key in passthrough mode */
+  apiKey: string | null;
+  /** The bearer token's policy in token mode */
+  policy?: TokenPolicy;
+}
+
+/**
+ * The MCP endpoint served at /mcp, configured from env. AUTH_MODE=passthrough
+ * (default): clients send their own Gemini key in the GOOGLE_API_KEY header.
+ * AUTH_MODE=token: the server holds the Gemini keys and clients present a
+ * bearer token, issued by us or by an OAuth server. State such as outputs,
+ * sessions and usage lives as long as the returned handler.
+ */
+export function createHttpHandler(
+  env: NodeJS.ProcessEnv = process.env,
+  options: HttpHandlerOptions = {}
+): (req: Request) => Promise<Response> {
+  const authSettings = authSettingsFromEnv(env);
+  const apiKeyPool = new ApiKeyPool(authSettings.apiKeys);
+  const createGeminiClient = options.createGeminiClient ?? ((apiKey: string) => new GoogleGenAI({ apiKey }));
+
+  const callerStorage = new AsyncLocalStorage<Caller>();
+
+  function getGeminiClient(): GeminiClient {
+    const caller = callerStorage.getStore();
+    if (caller?.policy) {
+      return createGeminiClient(apiKeyPool.take());
+    }
+    if (!caller?.apiKey) {
+      throw new ToolError(
+        "GOOGLE_API_KEY header is required. Pass your Google Gemini API key via the GOOGLE_API_KEY HTTP header.",
+        "auth"
+      );
+    }
+    return createGeminiClient(caller.apiKey);
+  }
+
+  // Identifies the caller without keeping their API key or token around
+  function apiKeyHash(): string {
+    return callerStorage.getStore()?.id ?? createHash("sha256").update("").digest("hex");
+  }
+
+  // Outputs are tracked per API key so clients only see images they produced
+  const outputStores = new Map<string, OutputStore>();
+
+  function getOutputStore(): OutputStore {
+    const keyHash = apiKeyHash();
+    let store = outputStores.get(keyHash);
+    if (!store) {
+      store = new OutputStore();
+      outputStores.set(keyHash, store);
+    }
+    return store;
+  }
+
+  // Edit sessions must outlive a single serverless invocation, so they go to
+  // Vercel Blob when a store is configured (SESSION_STORE=memory opts out)
+  const memorySessionStores = new Map<string, SessionStore>();
+
+  function getSessionStore(): SessionStore {
+    const keyHash = apiKeyHash();
+    if (env.SESSION_STORE !== "memory" && env.BLOB_READ_WRITE_TOKEN) {
+      return new BlobSessionStore(`sessions/${keyHash}/`);
+    }
+    let store = memorySessionStores.get(keyHash);
+    if (!store) {
+      store = new InMemorySessionStore();
+      memorySessionStores.set(keyHash, store);
+    }
+    return store;
+  }
+
+  // Background jobs (JOB_MODE=optional or async) are polled from later
+  // requests, which may reach another instance, so they go to Vercel Blob like
+  // sessions (JOB_STORE=memory opts out)
+  const jobMode = jobModeFromEnv(env);
+  const memoryJobStores = new Map<string, JobStore>();
+
+  function getJobStore(): JobStore {
+    const keyHash = apiKeyHash();
+    if (env.JOB_STORE !== "memory" && env.BLOB_READ_WRITE_TOKEN) {
+      return new BlobJobStore(`jobs/${keyHash}/`);
+    }
+    let store = memoryJobStores.get(keyHash);
+    if (!store) {
+      store = new InMemoryJobStore();
+      memoryJobStores.set(keyHash, store);
+    }
+    return store;
+  }
+
+  // Usage and the spending cap are accounted per API key or token, for the
+  // lifetime of the server instance. A token's own cap and daily call quota
+  // replace the server-wide ones.
+  const usageSettings = usageSettingsFromEnv(env);
+  const usageLedgers = new Map<string, UsageLedger>();
+
+  function getUsageLedger(): UsageLedger {
+    const keyHash = apiKeyHash();
+    let ledger = usageLedgers.get(keyHash);
+    if (!ledger) {
+      const policy = callerStorage.getStore()?.policy;
+      ledger = new UsageLedger({
+        ...usageSettings,
+        spendingCapUsd: policy?.spendingCapUsd ?? usageSettings.spendingCapUsd,
+        maxCallsPerDay: policy?.maxCallsPerDay,
+      });
+      usageLedgers.set(keyHash, ledger);
+    }
+    return ledger;
+  }
+
+  // Optional response cache (NANOBANANA_CACHE_DIR, e.g. under /tmp), shared by
+  // the instance but scoped per API key so callers never see each other's results
+  const cacheSettings = cacheSettingsFromEnv(env);
+  const resultCache = cacheSettings ? new ResultCache(cacheSettings) : undefined;
+
+  // Output images go to the backend chosen by STORAGE_BACKEND (Vercel Blob by default)
+  const storageOptions = storageOptionsFromEnv(env);
+  const storage = createImageStorage(storageOptions);
+
+  function generateFilename(prefix: string, mimeType: string): string {
+    const random = Math.random().toString(36).slice(2, 8);
+    return `${prefix}-${Date.now()}-${random}${extensionForMimeType(mimeType)}`;
+  }
+
+  // Inputs come from URLs only, fetched within NANOBANANA_FETCH_* limits that
+  // block private networks by default; outputs go to the configured storage.
+  // One caller serves every request, so its concurrency limit spans all
+  // requests an instance serves.
+  const blobTransport: ToolTransport = {
+    getGeminiClient,
+    geminiCaller: new GeminiCaller(callPolicyFromEnv(env)),
+    urlPolicy: urlPolicyFromEnv(env),
+    outputShape: {},
+    outputDescription: storage.description,
+    saveImage: (image, mimeType, kind) =>
+      storage.save(storageKey(storageOptions, apiKeyHash(), generateFilename(kind, mimeType)), image, mimeType),
+    readImage: (location) => storage.read(location),
+    getOutputStore,
+    getSessionStore,
+    getUsageLedger,
+    getAllowedModels: () => callerStorage.getStore()?.policy?.models,
+    // Styles from NANOBANANA_STYLES_DIR, deployed alongside the server
+    styles: StyleLibrary.load(env.NANOBANANA_STYLES_DIR),
+    ...(resultCache ? { getResultCache: () => resultCache.withScope(apiKeyHash()) } : {}),
+    ...(jobMode !== "off" ? { getJobStore, asyncByDefault: jobMode === "async", waitUntil: options.waitUntil } : {}),
+  };
+
+  const baseHandler = createMcpHandler(
+    (server) => {
+      registerTools(server, blobTransport);
+    },
+    {
+      serverInfo: {
+        name: SERVER_NAME,
+        version: SERVER_VERSION,
+      },
+    },
+    { basePath: "" }
+  );
+
+  function withGoogleApiKey(handler: (req: Request) => Promise<Response>) {
+    return (req: Request): Promise<Response> => {
+      const apiKey = req.headers.get("GOOGLE_API_KEY");
+      if (req.method === "POST" && !apiKey) {
+        return Promise.resolve(
+          new Response(
+            JSON.stringify({
+              jsonrpc: "2.0",
+              error: {
+                code: -32600,
+                message:
+                  "GOOGLE_API_KEY header is required. Pass your Google Gemini API key via the GOOGLE_API_KEY HTTP header.",
+              },
+              id: null,
+            }),
+            { status: 401, headers: { "Content-Type": "application/json" } }
+          )
+        );
+      }
+      const id = createHash("sha256").update(apiKey ?? "").digest("hex");
+      return callerStorage.run({ id, apiKey }, () => handler(req));
+    };
+  }
+
+  // Rejected tokens get a 401 with a WWW-Authenticate header pointing at
+  // /.well-known/oauth-protected-resource, as the MCP authorization spec asks
+  function withBearerToken(handler: (req: Request) => Promise<Response>) {
+    const verifier = new TokenVerifier(authSettings);
+    return withMcpAuth(
+      (req) => {
+        const policy = req.auth?.extra?.policy as TokenPolicy;
+        const id = createHash("sha256").update(`token:${policy.id}`).digest("hex");
+        return callerStorage.run({ id, apiKey: null, policy }, () => handler(req));
+      },
+      (_req, bearerToken) => verifier.verify(bearerToken),
+      { required: true }
+    );
+  }
+
+  return authSettings.mode === "token" ? withBearerToken(baseHandler) : withGoogleApiKey(baseHandler);
+}
@@ -0,0 +1,189 @@
+import * as fs from "fs";
+import * as path from "path";
+import sharp from "sharp";
+import { ToolError } from "./errors";
+import { DEFAULT_URL_POLICY, UrlPolicy, describeByteLimit, fetchUrl } from "./fetch";
+
+// An input image ready to be sent to Gemini as inline data
+export interface LoadedImage {
+  base64: string;
+  mimeType: string;
+}
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+// Brands of the ISO base media "ftyp" box used by HEIC and HEIF images
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx"];
+const HEIF_BRANDS = ["mif1", "msf1", "heif"];
+
+/**
+ * Identifies the image formats Gemini accepts (PNG, JPEG, WebP, HEIC, HEIF)
+ * by their magic bytes. Returns null for anything else.
+ */
+export function sniffImageType(buffer: Buffer): string | null {
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) {
+    return "image/png";
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (buffer.length >= 12 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (buffer.length >= 12 && buffer.toString("ascii", 4, 8) === "ftyp") {
+    const brand = buffer.toString("ascii", 8, 12);
+    if (HEIC_BRANDS.includes(brand)) {
+      return "image/heic";
+    }
+    if (HEIF_BRANDS.includes(brand)) {
+      return "image/heif";
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks that image bytes are an image Gemini accepts and agree with the
+ * claimed MIME type, if any. A missing or generic claim (e.g.
+ * application/octet-stream from a bucket) is replaced by the sniffed type.
+ */
+function checkImageBytes(image: Buffer, claimedType: string | undefined, source: string): string {
+  const sniffed = sniffImageType(image);
+  if (!sniffed) {
+    throw new ToolError(`${source} is not a PNG, JPEG, WebP, HEIC or HEIF image`, "invalid_input");
+  }
+  const claimed = claimedType?.split(";")[0].trim().toLowerCase().replace("image/jpg", "image/jpeg");
+  if (claimed && claimed !== "application/octet-stream" && claimed !== "binary/octet-stream" && claimed !== sniffed) {
+    throw new ToolError(`${source} is declared as ${claimed} but contains ${sniffed} data`, "invalid_input");
+  }
+  return sniffed;
+}
+
+/**
+ * Loads an input image from a data URL, or downloads it within the URL
+ * policy's size, time and network limits. The bytes must be an image whose
+ * format matches the declared type before they are passed on to Gemini.
+ */
+export async function loadImageFromUrl(imageUrl: string, policy: UrlPolicy = DEFAULT_URL_POLICY): Promise<LoadedImage> {
+  if (imageUrl.startsWith("data:")) {
+    const match = imageUrl.match(/^data:([^;]+);base64,(.+)$/);
+    if (!match) {
+      throw new ToolError(`Invalid data URL format`, "invalid_input");
+    }
+    const image = Buffer.from(match[2], "base64");
+    if (image.length > policy.maxBytes) {
+      throw new ToolError(`Data URL image is larger than the ${describeByteLimit(policy.maxBytes)} limit`, "invalid_input");
+    }
+    return { mimeType: checkImageBytes(image, match[1], "Data URL"), base64: match[2] };
+  }
+  const { body, contentType } = await fetchUrl(imageUrl, policy);
+  const mimeType = checkImageBytes(body, contentType, `Image at ${imageUrl}`);
+  return { base64: body.toString("base64"), mimeType };
+}
+
+export async function loadImageFromFile(filePath: string): Promise<LoadedImage> {
+  if (!fs.existsSync(filePath)) {
+    throw new ToolError(`Input file not found: ${filePath}`, "invalid_input");
+  }
+  const imageData = fs.readFileSync(filePath);
+  const ext = path.extname(filePath).toLowerCase();
+  return {
+    base64: imageData.toString("base64"),
+    mimeType: MIME_TYPES_BY_EXTENSION[ext] || "image/png",
+  };
+}
+
+// Format and pixel size of an encoded image, read from its header
+export interface ImageInfo {
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+function readJpegInfo(buffer: Buffer): ImageInfo | null {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+    const marker = buffer[offset + 1];
+    // SOF0..SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        mimeType: "image/jpeg",
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readWebpInfo(buffer: Buffer): ImageInfo | null {
+  const chunk = buffer.toString("ascii", 12, 16);
+  if (chunk === "VP8 " && buffer.length >= 30) {
+    return {
+      mimeType: "image/webp",
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    };
+  }
+  if (chunk === "VP8L" && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      mimeType: "image/webp",
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+  if (chunk === "VP8X" && buffer.length >= 30) {
+    return {
+      mimeType: "image/webp",
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+    };
+  }
+  return null;
+}
+
+/**
+ * Reads the format and dimensions of a PNG, JPEG or WebP image from its
+ * header bytes. Returns null for anything else.
+ */
+export function readImageInfo(buffer: Buffer): ImageInfo | null {
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return {
+      mimeType: "image/png",
+      width: buffer.readUInt32BE(16),
+      height: buffer.readUInt32BE(20),
+    };
+  }
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return readJpegInfo(buffer);
+  }
+  if (buffer.length >= 16 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+    return readWebpInfo(buffer);
+  }
+  return null;
+}
+
+// Longest side of the downscaled previews returned in tool results
+export const PREVIEW_MAX_DIMENSION = 512;
+
+/**
+ * Downscales an image to fit within maxDimension on both sides and re-encodes
+ * it as JPEG, keeping inline previews small enough for a model's context.
+ */
+export async function createPreview(image: Buffer, maxDimension = PREVIEW_MAX_DIMENSION): Promise<LoadedImage> {
+  const preview = await sharp(image)
+    .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  return { base64: preview.toString("base64"), mimeType: "image/jpeg" };
+}
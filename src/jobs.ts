@@ -0,0 +1,148 @@
+import { randomUUID } from "crypto";
+import { ListBlobResultBlob, get, list, put } from "@vercel/blob";
+import { ErrorCategory } from "./errors";
+
+/**
+ * off: image tools always answer when the image is ready; optional: they
+ * take async: true to return a job id instead; async: they do so by default.
+ */
+export const JOB_MODES = ["off", "optional", "async"] as const;
+
+export type JobMode = (typeof JOB_MODES)[number];
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// An output image of a finished job
+export interface JobOutput {
+  /** The output resource, readable while the instance that ran the job keeps it */
+  uri: string;
+  /** Where the image was stored (URL), which outlives the instance */
+  location: string;
+  mimeType: string;
+}
+
+// An image tool call running in the background
+export interface ImageJob {
+  id: string;
+  tool: string;
+  prompt: string;
+  status: JobStatus;
+  outputs: JobOutput[];
+  /** The tool result's summary, once the job has finished */
+  summary?: string;
+  /** Why the job failed, as reported in structuredContent.error */
+  error?: { message: string; category: ErrorCategory; retryable: boolean };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persists background jobs so their status can be asked for by later
+ * requests. Serverless deployments need a store that outlives the instance
+ * running the job.
+ */
+export interface JobStore {
+  get(id: string): Promise<ImageJob | undefined>;
+  save(job: ImageJob): Promise<void>;
+  /** The most recent jobs, newest first; with status, the most recent of those in that status. */
+  list(limit: number, status?: JobStatus): Promise<ImageJob[]>;
+}
+
+function newestFirst(a: ImageJob, b: ImageJob): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+/** Keeps jobs in memory, dropping the oldest once maxJobs is reached. */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, ImageJob>();
+
+  constructor(private readonly maxJobs = 100) {}
+
+  async get(id: string): Promise<ImageJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async save(job: ImageJob): Promise<void> {
+    this.jobs.set(job.id, job);
+    if (this.jobs.size > this.maxJobs) {
+      const [oldest] = [...this.jobs.values()].sort(newestFirst).slice(-1);
+      this.jobs.delete(oldest.id);
+    }
+  }
+
+  async list(limit: number, status?: JobStatus): Promise<ImageJob[]> {
+    return [...this.jobs.values()]
+      .filter((job) => !status || job.status === status)
+      .sort(newestFirst)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Stores each job as a private JSON blob under prefix, so any instance can
+ * report on a job another one ran.
+ */
+export class BlobJobStore implements JobStore {
+  constructor(private readonly prefix: string) {}
+
+  private pathname(id: string): string {
+    return `${this.prefix}${id}.json`;
+  }
+
+  private async read(pathname: string): Promise<ImageJob | undefined> {
+    const result = await get(pathname, { access: "private", useCache: false });
+    if (!result || !result.stream) {
+      return undefined;
+    }
+    const body = await new Response(result.stream).text();
+    return JSON.parse(body) as ImageJob;
+  }
+
+  async get(id: string): Promise<ImageJob | undefined> {
+    return this.read(this.pathname(id));
+  }
+
+  async save(job: ImageJob): Promise<void> {
+    await put(this.pathname(job.id), JSON.stringify(job), {
+      access: "private",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+      contentType: "application/json",
+    });
+  }
+
+  async list(limit: number, status?: JobStatus): Promise<ImageJob[]> {
+    const blobs: ListBlobResultBlob[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix: this.prefix, cursor });
+      blobs.push(...page.blobs);
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    blobs.sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
+
+    // The status is only known once a job is read, so read limit at a time, newest first, until enough match
+    const jobs: ImageJob[] = [];
+    for (let start = 0; start < blobs.length && jobs.length < limit; start += limit) {
+      const read = await Promise.all(blobs.slice(start, start + limit).map((blob) => this.read(blob.pathname)));
+      jobs.push(...read.filter((job): job is ImageJob => job !== undefined && (!status || job.status === status)));
+    }
+    return jobs.sort(newestFirst).slice(0, limit);
+  }
+}
+
+export function createJob(tool: string, prompt: string): ImageJob {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), tool, prompt, status: "queued", outputs: [], createdAt: now, updatedAt: now };
+}
+
+/** Reads JOB_MODE (off, optional or async; default off). */
+export function jobModeFromEnv(env: NodeJS.ProcessEnv): JobMode {
+  const mode = (env.JOB_MODE || "off") as JobMode;
+  if (!JOB_MODES.includes(mode)) {
+    throw new Error(`Invalid JOB_MODE: ${mode}. Allowed values: ${JOB_MODES.join(", ")}`);
+  }
+  return mode;
+}
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import * as fs from "fs";
+import * as path from "path";
+import { ResultCache } from "./cache";
+import { ServerConfig, createGeminiClient } from "./config";
+import { formatFromPath } from "./formats";
+import { GeminiClient } from "./gemini";
+import { loadImageFromFile } from "./images";
+import { OutputStore } from "./outputs";
+import { GeminiCaller } from "./retry";
+import { OVERWRITE_POLICIES, OverwritePolicy, PathSandbox } from "./sandbox";
+import { InMemorySessionStore } from "./sessions";
+import { StyleLibrary } from "./styles";
+import { ToolTransport } from "./tools";
+import { UsageLedger } from "./usage";
+
+// output.png -> output-2.png for the second of several variants
+export function variantPath(outputPath: string, variant: number | undefined): string {
+  if (variant === undefined) {
+    return outputPath;
+  }
+  const ext = path.extname(outputPath);
+  return `${outputPath.slice(0, outputPath.length - ext.length)}-${variant}${ext}`;
+}
+
+/**
+ * The transport of the stdio server and the CLI: inputs come from local files
+ * or URLs, outputs are written to outputPath, and sessions, outputs and usage
+ * are kept in memory for the lifetime of the process. Gemini responses are
+ * cached on disk when config.cache is set. Local paths are confined to the
+ * sandbox's roots.
+ */
+export function createLocalTransport(
+  config: ServerConfig,
+  sandbox: PathSandbox = new PathSandbox(config.sandbox)
+): ToolTransport {
+  let genai: GeminiClient | null = null;
+  const outputs = new OutputStore();
+  const sessions = new InMemorySessionStore();
+  const usage = new UsageLedger(config.usage);
+  const cache = config.cache ? new ResultCache(config.cache) : undefined;
+  const resolveOutput = (args: Record<string, unknown>, variant: number | undefined) =>
+    sandbox.resolveOutput(variantPath(args.outputPath as string, variant), args.overwrite as OverwritePolicy | undefined);
+
+  return {
+    getGeminiClient: () => {
+      if (!genai) {
+        genai = createGeminiClient(config);
+      }
+      return genai;
+    },
+    geminiCaller: new GeminiCaller(config.callPolicy),
+    defaultModel: config.defaultModel,
+    urlPolicy: config.urlPolicy,
+    loadImageFromFile: async (filePath) => loadImageFromFile(await sandbox.resolveInput(filePath)),
+    resolveInputPath: (filePath) => sandbox.resolveInput(filePath),
+    outputShape: {
+      outputPath: z
+        .string()
+        .describe(
+          "Path to save the output image file. The extension (.png, .jpg/.jpeg, .webp) picks the format unless format is given. When several variants are requested they are saved as <name>-1.<ext> ... <name>-N.<ext>"
+        ),
+      overwrite: z
+        .enum(OVERWRITE_POLICIES)
+        .optional()
+        .describe(
+          `What to do when the output file exists: error (fail), suffix (save as <name>_1.<ext>, ...) or replace. Default: ${config.sandbox.overwrite}`
+        ),
+    },
+    outputFormat: (args) => formatFromPath(args.outputPath as string),
+    outputDescription: "The image is saved to outputPath.",
+    checkOutput: async (args, variant) => {
+      await resolveOutput(args, variant);
+    },
+    saveImage: async (image, _mimeType, _kind, args, variant) => {
+      const outputPath = await resolveOutput(args, variant);
+      await sandbox.writeFile(outputPath, image);
+      return outputPath;
+    },
+    outputExists: async (args, variant) => fs.existsSync(variantPath(args.outputPath as string, variant)),
+    readImage: (location) => fs.promises.readFile(location),
+    getOutputStore: () => outputs,
+    getSessionStore: () => sessions,
+    getUsageLedger: () => usage,
+    styles: StyleLibrary.load(config.stylesDir),
+    ...(cache ? { getResultCache: () => cache } : {}),
+  };
+}
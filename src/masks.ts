@@ -0,0 +1,76 @@
+import sharp from "sharp";
+import { ToolError } from "./errors";
+
+// A region of the input image, in pixels, that an edit is allowed to touch
+export type MaskRegion =
+  | { type: "rectangle"; x: number; y: number; width: number; height: number }
+  | { type: "polygon"; points: { x: number; y: number }[] };
+
+async function imageDimensions(image: Buffer): Promise<{ width: number; height: number }> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new ToolError("Could not read the dimensions of the input image", "invalid_input");
+  }
+  return { width, height };
+}
+
+/**
+ * Renders rectangles and polygons into a PNG mask the size of the input
+ * image: white where edits are allowed, black everywhere else.
+ */
+export async function renderRegionMask(input: Buffer, regions: MaskRegion[]): Promise<Buffer> {
+  const { width, height } = await imageDimensions(input);
+  const shapes = regions.map((region) => {
+    if (region.type === "rectangle") {
+      return `<rect x="${region.x}" y="${region.y}" width="${region.width}" height="${region.height}" fill="white"/>`;
+    }
+    const points = region.points.map((point) => `${point.x},${point.y}`).join(" ");
+    return `<polygon points="${points}" fill="white"/>`;
+  });
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="${width}" height="${height}" fill="black"/>${shapes.join("")}</svg>`;
+  return sharp(Buffer.from(svg)).greyscale().png().toBuffer();
+}
+
+/**
+ * Converts a user-supplied mask (any format, with or without transparency)
+ * into a greyscale PNG the size of the input image. Transparent areas count
+ * as black.
+ */
+export async function normalizeMask(input: Buffer, mask: Buffer): Promise<Buffer> {
+  const { width, height } = await imageDimensions(input);
+  return sharp(mask)
+    .flatten({ background: "#000000" })
+    .resize(width, height, { fit: "fill" })
+    .greyscale()
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Composites an edited image back over the original through a mask, so that
+ * every pixel outside the white area of the mask is taken from the original.
+ * The edited image and the mask are stretched to the original's size; grey
+ * mask values blend the two images.
+ */
+export async function applyMask(original: Buffer, edited: Buffer, mask: Buffer): Promise<Buffer> {
+  const { width, height } = await imageDimensions(original);
+
+  const alpha = await sharp(mask)
+    .flatten({ background: "#000000" })
+    .resize(width, height, { fit: "fill" })
+    .greyscale()
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+
+  // sharp joins channels before resizing, so resize in a separate pass
+  const resized = await sharp(edited).resize(width, height, { fit: "fill" }).removeAlpha().png().toBuffer();
+  const overlay = await sharp(resized)
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  return sharp(original).composite([{ input: overlay }]).png().toBuffer();
+}
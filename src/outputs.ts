@@ -0,0 +1,51 @@
+import { randomUUID } from "crypto";
+
+export const OUTPUT_URI_PREFIX = "nanobanana://outputs/";
+
+// An image produced by one of the tools, exposed as an MCP resource
+export interface OutputRecord {
+  id: string;
+  uri: string;
+  name: string;
+  mimeType: string;
+  /** Where the image was saved (file path or URL) */
+  location: string;
+  /** The tool call that produced the image, e.g. "generate_image: a red panda" */
+  description: string;
+  createdAt: Date;
+}
+
+/**
+ * Keeps track of the images produced during a session so they can be listed
+ * and re-read as MCP resources. Only metadata is kept in memory; the image
+ * bytes are read back from the output location on demand. The oldest records
+ * are dropped once maxRecords is reached.
+ */
+export class OutputStore {
+  private records: OutputRecord[] = [];
+
+  constructor(private readonly maxRecords = 100) {}
+
+  add(output: Omit<OutputRecord, "id" | "uri" | "createdAt">): OutputRecord {
+    const id = randomUUID();
+    const record: OutputRecord = {
+      ...output,
+      id,
+      uri: `${OUTPUT_URI_PREFIX}${id}`,
+      createdAt: new Date(),
+    };
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+    return record;
+  }
+
+  get(id: string): OutputRecord | undefined {
+    return this.records.find((record) => record.id === id);
+  }
+
+  list(): OutputRecord[] {
+    return [...this.records];
+  }
+}
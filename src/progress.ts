@@ -0,0 +1,60 @@
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ToolError } from "./errors";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Tracks one tool call for the client: sends a notifications/progress
+ * message per stage when the request carried a progress token, and exposes
+ * the request's abort signal, which the SDK triggers on
+ * notifications/cancelled. Without extra (e.g. the CLI) it reports nothing
+ * and is never cancelled.
+ */
+export class ToolProgress {
+  private step = 0;
+
+  constructor(
+    private readonly extra?: ToolExtra,
+    private readonly silent = false
+  ) {}
+
+  /** Aborted when the client cancels the call; passed to Gemini requests as their abortSignal. */
+  get signal(): AbortSignal | undefined {
+    return this.extra?.signal;
+  }
+
+  /** The same cancellation without notifications, for the jobs of a batch that reports per job. */
+  quiet(): ToolProgress {
+    return new ToolProgress(this.extra, true);
+  }
+
+  throwIfCancelled(): void {
+    if (this.extra?.signal.aborted) {
+      throw new ToolError("The client cancelled the request", "cancelled");
+    }
+  }
+
+  /**
+   * Reports the stage the call has reached, e.g. "Waiting on the model".
+   * Throws if the call was cancelled, so work stops at the next stage.
+   * progress and total default to a running step count with no total.
+   */
+  async report(message: string, progress?: number, total?: number): Promise<void> {
+    this.throwIfCancelled();
+    const progressToken = this.extra?._meta?.progressToken;
+    if (this.silent || !this.extra || progressToken === undefined) {
+      return;
+    }
+    this.step += 1;
+    try {
+      await this.extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: progress ?? this.step, total, message },
+      });
+    } catch (error) {
+      // Progress is informational; a closed connection shows up on the response
+      console.error("Could not send progress notification:", error);
+    }
+  }
+}
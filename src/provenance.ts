@@ -0,0 +1,248 @@
+import { createHash } from "crypto";
+import { readImageInfo } from "./images";
+
+export const SERVER_NAME = "nanobanana-mcp";
+
+// The published package always ships package.json next to dist/ (and src/)
+export const SERVER_VERSION: string = require("../package.json").version;
+
+// An image a tool call read, identified by content hash
+export interface ProvenanceInput {
+  /** input, mask or session (the image an edit session started from) */
+  role: "input" | "mask" | "session";
+  /** File path or URL it was loaded from; data URLs are not repeated */
+  source?: string;
+  sha256: string;
+}
+
+/**
+ * How an output image was made, embedded in the file as XMP so it can be
+ * reproduced or audited after it leaves the server.
+ */
+export interface Provenance {
+  tool: string;
+  prompt: string;
+  /** Set when the prompt was shortened to fit the file's metadata (JPEG segments hold 64 KB) */
+  promptTruncated?: boolean;
+  model: string;
+  aspectRatio?: string;
+  imageSize?: string;
+  inputs: ProvenanceInput[];
+  /** 1-based variant index when the call produced several images */
+  variant?: number;
+  session?: { id: string; step: number; parent: number };
+  createdAt: string;
+  serverVersion: string;
+}
+
+export function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export function provenanceInput(role: ProvenanceInput["role"], source: string | undefined, base64: string): ProvenanceInput {
+  return {
+    role,
+    source: source?.startsWith("data:") ? "data URL" : source,
+    sha256: sha256(Buffer.from(base64, "base64")),
+  };
+}
+
+const NAMESPACE = "https://github.com/lpenguin/nanobanana-mcp/ns/1.0/";
+const XMP_KEYWORD = "XML:com.adobe.xmp";
+const JPEG_XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// A standard XMP packet: creator tool, date and description for common
+// viewers, and the full record as JSON in our own namespace
+function buildXmp(provenance: Provenance): string {
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `  <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:nanobanana="${NAMESPACE}">`,
+    `   <xmp:CreatorTool>${SERVER_NAME} ${escapeXml(provenance.serverVersion)}</xmp:CreatorTool>`,
+    `   <xmp:CreateDate>${escapeXml(provenance.createdAt)}</xmp:CreateDate>`,
+    `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+    `   <nanobanana:provenance>${escapeXml(JSON.stringify(provenance))}</nanobanana:provenance>`,
+    "  </rdf:Description>",
+    " </rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Adds an uncompressed iTXt chunk before the image data, where readers look for metadata
+function embedInPng(image: Buffer, xmp: string): Buffer {
+  const data = Buffer.concat([Buffer.from(`${XMP_KEYWORD}\0\0\0\0\0`, "latin1"), Buffer.from(xmp, "utf-8")]);
+  const typeAndData = Buffer.concat([Buffer.from("iTXt", "ascii"), data]);
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  typeAndData.copy(chunk, 4);
+  chunk.writeUInt32BE(crc32(typeAndData), 8 + data.length);
+
+  let offset = 8;
+  while (offset + 8 <= image.length) {
+    const length = image.readUInt32BE(offset);
+    const type = image.toString("ascii", offset + 4, offset + 8);
+    if (type === "IDAT" || type === "IEND") {
+      return Buffer.concat([image.subarray(0, offset), chunk, image.subarray(offset)]);
+    }
+    offset += 12 + length;
+  }
+  throw new Error("PNG has no image data");
+}
+
+// Largest XMP packet an APP1 segment holds, after its length field and header
+const JPEG_MAX_XMP_BYTES = 0xffff - 2 - JPEG_XMP_HEADER.length;
+
+/**
+ * Builds the XMP for a JPEG, shortening the prompt until the packet fits one
+ * APP1 segment. The output has already been paid for by then, so a long
+ * prompt must not fail the call. Each round keeps the share of the prompt
+ * that fits the bytes left beside the rest of the record.
+ */
+function buildJpegXmp(provenance: Provenance): string {
+  let xmp = buildXmp(provenance);
+  const overhead = Buffer.byteLength(buildXmp({ ...provenance, prompt: "", promptTruncated: true }), "utf-8");
+  let prompt = provenance.prompt;
+  while (Buffer.byteLength(xmp, "utf-8") > JPEG_MAX_XMP_BYTES && prompt.length > 0) {
+    const promptBytes = Buffer.byteLength(xmp, "utf-8") - overhead;
+    const keep = Math.floor((prompt.length * (JPEG_MAX_XMP_BYTES - overhead)) / promptBytes);
+    prompt = prompt.slice(0, Math.min(keep, prompt.length - 1));
+    xmp = buildXmp({ ...provenance, prompt, promptTruncated: true });
+  }
+  return xmp;
+}
+
+// Adds an APP1 XMP segment after SOI and any JFIF/EXIF segments, which must come first
+function embedInJpeg(image: Buffer, xmp: string): Buffer {
+  const payload = Buffer.concat([Buffer.from(JPEG_XMP_HEADER, "latin1"), Buffer.from(xmp, "utf-8")]);
+  const segment = Buffer.alloc(4 + payload.length);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(payload.length + 2, 2);
+  payload.copy(segment, 4);
+
+  let offset = 2;
+  while (
+    offset + 4 <= image.length &&
+    image[offset] === 0xff &&
+    (image[offset + 1] === 0xe0 || image[offset + 1] === 0xe1)
+  ) {
+    offset += 2 + image.readUInt16BE(offset + 2);
+  }
+  return Buffer.concat([image.subarray(0, offset), segment, image.subarray(offset)]);
+}
+
+function riffChunk(type: string, data: Buffer): Buffer {
+  const padding = data.length % 2;
+  const chunk = Buffer.alloc(8 + data.length + padding);
+  chunk.write(type, 0, "ascii");
+  chunk.writeUInt32LE(data.length, 4);
+  data.copy(chunk, 8);
+  return chunk;
+}
+
+const VP8X_XMP_FLAG = 0x04;
+const VP8X_ALPHA_FLAG = 0x10;
+
+// Simple (VP8/VP8L) files are upgraded to the extended format, which is what can carry XMP
+function embedInWebp(image: Buffer, xmp: string, width: number, height: number): Buffer {
+  let body = image.subarray(12);
+  const first = body.toString("ascii", 0, 4);
+  if (first === "VP8X") {
+    body = Buffer.from(body);
+    body[8] |= VP8X_XMP_FLAG;
+  } else {
+    const header = Buffer.alloc(10);
+    // VP8L stores an alpha_is_used bit after the 14-bit width and height
+    const alpha = first === "VP8L" && (body.readUInt32LE(9) >>> 28) & 1;
+    header[0] = VP8X_XMP_FLAG | (alpha ? VP8X_ALPHA_FLAG : 0);
+    header.writeUIntLE(width - 1, 4, 3);
+    header.writeUIntLE(height - 1, 7, 3);
+    body = Buffer.concat([riffChunk("VP8X", header), body]);
+  }
+  const content = Buffer.concat([Buffer.from("WEBP", "ascii"), body, riffChunk("XMP ", Buffer.from(xmp, "utf-8"))]);
+  const riff = Buffer.alloc(8);
+  riff.write("RIFF", 0, "ascii");
+  riff.writeUInt32LE(content.length, 4);
+  return Buffer.concat([riff, content]);
+}
+
+/**
+ * Writes provenance into a PNG (iTXt chunk), JPEG (APP1 segment) or WebP
+ * (XMP chunk) without re-encoding the pixels. A prompt too long for a JPEG
+ * segment is truncated and marked with promptTruncated. Other formats are
+ * returned unchanged.
+ */
+export function embedProvenance(image: Buffer, provenance: Provenance): Buffer {
+  const info = readImageInfo(image);
+  switch (info?.mimeType) {
+    case "image/png":
+      return embedInPng(image, buildXmp(provenance));
+    case "image/jpeg":
+      return embedInJpeg(image, buildJpegXmp(provenance));
+    case "image/webp":
+      return embedInWebp(image, buildXmp(provenance), info.width, info.height);
+    default:
+      return image;
+  }
+}
+
+/**
+ * Finds provenance written by embedProvenance. XMP is stored uncompressed in
+ * all three formats, so the packet can be located by its element name.
+ */
+export function readProvenance(image: Buffer): Provenance | null {
+  const open = "<nanobanana:provenance>";
+  const start = image.indexOf(open);
+  if (start < 0) {
+    return null;
+  }
+  const end = image.indexOf("</nanobanana:provenance>", start);
+  if (end < 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(unescapeXml(image.toString("utf-8", start + open.length, end))) as Provenance;
+  } catch {
+    return null;
+  }
+}
+
+// Whether the image carries any XMP packet, ours or another tool's
+export function hasXmp(image: Buffer): boolean {
+  return image.indexOf("<x:xmpmeta") >= 0;
+}
@@ -0,0 +1,120 @@
+import * as fs from "fs";
+import { ApiError, ContentListUnion, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { z } from "zod";
+import { GeminiClient } from "./gemini";
+
+const recordingSchema = z
+  .object({
+    /** Replayed for requests whose prompt text contains this; a recording without match answers any request */
+    match: z.string().optional(),
+    /** The GenerateContentResponse JSON Gemini sent */
+    response: z.record(z.string(), z.unknown()).optional(),
+    /** An API error to fail with instead, e.g. status 429 for an exhausted quota */
+    error: z.object({ status: z.number().int(), message: z.string() }).optional(),
+    /** Delay before answering, to exercise timeouts and cancellation */
+    delayMs: z.number().int().min(0).optional(),
+    /** Answers only this many requests, after which later recordings are tried, to vary the answers to one prompt */
+    times: z.number().int().min(1).optional(),
+  })
+  .strict()
+  .refine((recording) => (recording.response === undefined) !== (recording.error === undefined), {
+    message: "A recording needs exactly one of response and error",
+  });
+
+export type Recording = z.infer<typeof recordingSchema>;
+
+const recordingFileSchema = z.object({ recordings: z.array(recordingSchema) });
+
+/** Reads recordings from a JSON file of the form { "recordings": [...] }. */
+export function loadRecordings(filePath: string): Recording[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read replay file ${filePath}: ${message}`);
+  }
+  const parsed = recordingFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid replay file ${filePath}: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data.recordings;
+}
+
+// The text parts of a request, wherever they sit in contents
+function promptText(contents: ContentListUnion): string {
+  const texts: string[] = [];
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      texts.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      const { text, parts } = value as { text?: unknown; parts?: unknown };
+      if (typeof text === "string") {
+        texts.push(text);
+      }
+      if (parts) {
+        visit(parts);
+      }
+    }
+  };
+  visit(contents);
+  return texts.join("\n");
+}
+
+function delay(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new Error("The request was aborted"));
+    });
+  });
+}
+
+/**
+ * A Gemini client that answers from recorded responses instead of calling
+ * the API: each request gets the first recording whose match occurs in its
+ * prompt text (and that has answered fewer than times requests). Requests are kept in requests for inspection. Used by the
+ * test suite and by NANOBANANA_BACKEND=replay for offline runs.
+ */
+export class ReplayGeminiClient implements GeminiClient {
+  readonly requests: GenerateContentParameters[] = [];
+  private answered = new Map<Recording, number>();
+
+  readonly models = {
+    generateContent: (request: GenerateContentParameters) => this.replay(request),
+  };
+
+  constructor(private readonly recordings: Recording[]) {}
+
+  static fromFile(filePath: string): ReplayGeminiClient {
+    return new ReplayGeminiClient(loadRecordings(filePath));
+  }
+
+  private async replay(request: GenerateContentParameters): Promise<GenerateContentResponse> {
+    this.requests.push(request);
+    const text = promptText(request.contents);
+    const recording = this.recordings.find(
+      (candidate) =>
+        (candidate.match === undefined || text.includes(candidate.match)) &&
+        (candidate.times === undefined || (this.answered.get(candidate) ?? 0) < candidate.times)
+    );
+    if (!recording) {
+      throw new ApiError({ message: `No recorded response matches the prompt: ${text}`, status: 400 });
+    }
+    this.answered.set(recording, (this.answered.get(recording) ?? 0) + 1);
+    const signal = request.config?.abortSignal;
+    if (recording.delayMs) {
+      await delay(recording.delayMs, signal);
+    }
+    if (signal?.aborted) {
+      throw new Error("The request was aborted");
+    }
+    if (recording.error) {
+      throw new ApiError(recording.error);
+    }
+    return Object.assign(new GenerateContentResponse(), structuredClone(recording.response));
+  }
+}
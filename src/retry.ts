@@ -0,0 +1,181 @@
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { CacheLookup, isCacheable } from "./cache";
+import { ToolError, classifyError } from "./errors";
+import { GeminiClient } from "./gemini";
+import { CallUsage } from "./usage";
+
+// How Gemini calls are timed out, retried and throttled
+export interface CallPolicy {
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs: number;
+  /** Retries after the first attempt for quota and transient errors */
+  maxRetries: number;
+  /** First backoff delay; doubles on every retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, including retry-after hints */
+  maxDelayMs: number;
+  /** Gemini requests allowed in flight at once, across all tool calls */
+  maxConcurrency: number;
+}
+
+export const DEFAULT_CALL_POLICY: CallPolicy = {
+  timeoutMs: 120_000,
+  maxRetries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 60_000,
+  maxConcurrency: 4,
+};
+
+function parseInteger(name: string, value: string | undefined, min: number): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name}: ${value}. Expected an integer of at least ${min}`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads call policy overrides from GEMINI_TIMEOUT_MS, GEMINI_MAX_RETRIES and
+ * GEMINI_MAX_CONCURRENCY.
+ */
+export function callPolicyFromEnv(env: NodeJS.ProcessEnv, base: CallPolicy = DEFAULT_CALL_POLICY): CallPolicy {
+  return {
+    ...base,
+    timeoutMs: parseInteger("GEMINI_TIMEOUT_MS", env.GEMINI_TIMEOUT_MS, 1) ?? base.timeoutMs,
+    maxRetries: parseInteger("GEMINI_MAX_RETRIES", env.GEMINI_MAX_RETRIES, 0) ?? base.maxRetries,
+    maxConcurrency: parseInteger("GEMINI_MAX_CONCURRENCY", env.GEMINI_MAX_CONCURRENCY, 1) ?? base.maxConcurrency,
+  };
+}
+
+// Gemini puts a google.rpc.RetryInfo detail such as "retryDelay": "17s" in quota errors
+function retryAfterMs(error: unknown): number | undefined {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+function cancelledError(): ToolError {
+  return new ToolError("The client cancelled the request", "cancelled");
+}
+
+// Waits ms, or rejects as cancelled as soon as signal aborts
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs every Gemini request through one policy: at most maxConcurrency
+ * requests in flight, a timeout per attempt, and exponential backoff with
+ * full jitter for quota and transient errors, waiting at least as long as
+ * the API's retry-after hint.
+ */
+export class GeminiCaller {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(readonly policy: CallPolicy = DEFAULT_CALL_POLICY) {}
+
+  /**
+   * Sends one request; the token usage of the response is added to usage if
+   * given. With a cache lookup, a cached response is returned without a
+   * request, and a new response with an image is stored for next time.
+   * request.config.abortSignal cancels the call, including pending retries.
+   */
+  async generateContent(
+    genai: GeminiClient,
+    request: GenerateContentParameters,
+    usage?: CallUsage,
+    lookup?: CacheLookup
+  ): Promise<GenerateContentResponse> {
+    const key = lookup?.cache.key(lookup.tool, lookup.variant, request);
+    if (lookup && key && !lookup.bypass) {
+      const cached = await lookup.cache.get(key);
+      if (cached) {
+        if (usage) {
+          usage.cache.hits += 1;
+        }
+        return cached;
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.withSlot(() => this.attempt(genai, request));
+        usage?.record(request.model, response.usageMetadata);
+        if (lookup && key) {
+          if (usage) {
+            usage.cache[lookup.bypass ? "bypassed" : "misses"] += 1;
+          }
+          if (isCacheable(response)) {
+            // A cache that cannot be written must not fail a paid-for call
+            await lookup.cache.set(key, response).catch((error) => console.error("Could not write result cache:", error));
+          }
+        }
+        return response;
+      } catch (error) {
+        const toolError = classifyError(error);
+        if (toolError.category === "cancelled" || !toolError.retryable || attempt >= this.policy.maxRetries) {
+          throw toolError;
+        }
+        const backoff = Math.random() * this.policy.baseDelayMs * 2 ** attempt;
+        const hint = retryAfterMs(error) ?? 0;
+        await sleep(Math.min(Math.max(backoff, hint), this.policy.maxDelayMs), request.config?.abortSignal);
+      }
+    }
+  }
+
+  private async attempt(genai: GeminiClient, request: GenerateContentParameters): Promise<GenerateContentResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
+    const cancelled = request.config?.abortSignal;
+    try {
+      return await genai.models.generateContent({
+        ...request,
+        config: {
+          ...request.config,
+          abortSignal: cancelled ? AbortSignal.any([cancelled, controller.signal]) : controller.signal,
+        },
+      });
+    } catch (error) {
+      if (cancelled?.aborted) {
+        throw cancelledError();
+      }
+      if (controller.signal.aborted) {
+        throw new ToolError(`Gemini API did not respond within ${this.policy.timeoutMs} ms`, "timeout", true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async withSlot<T>(operation: () => Promise<T>): Promise<T> {
+    while (this.active >= this.policy.maxConcurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await operation();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+}
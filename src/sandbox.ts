@@ -0,0 +1,160 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ToolError } from "./errors";
+
+/**
+ * What happens when an output file already exists:
+ * - error: the call fails and the file is left alone
+ * - suffix: the image is saved next to it as <name>_1.<ext>, <name>_2.<ext>, ...
+ * - replace: the file is overwritten
+ */
+export const OVERWRITE_POLICIES = ["error", "suffix", "replace"] as const;
+
+export type OverwritePolicy = (typeof OVERWRITE_POLICIES)[number];
+
+// Where tool calls may read and write local files
+export interface SandboxSettings {
+  /** Directories paths must stay within; when undefined, the MCP client's roots */
+  allowedDirs?: string[];
+  /** Default for output files that already exist, overridable per call */
+  overwrite: OverwritePolicy;
+}
+
+export const DEFAULT_SANDBOX_SETTINGS: SandboxSettings = { overwrite: "error" };
+
+/**
+ * Reads sandbox settings from NANOBANANA_ALLOWED_DIRS (separated like PATH)
+ * and NANOBANANA_OVERWRITE over base.
+ */
+export function sandboxSettingsFromEnv(
+  env: NodeJS.ProcessEnv,
+  base: SandboxSettings = DEFAULT_SANDBOX_SETTINGS
+): SandboxSettings {
+  const overwrite = env.NANOBANANA_OVERWRITE || base.overwrite;
+  if (!OVERWRITE_POLICIES.includes(overwrite as OverwritePolicy)) {
+    throw new Error(`Invalid NANOBANANA_OVERWRITE: ${overwrite}. Allowed values: ${OVERWRITE_POLICIES.join(", ")}`);
+  }
+  const allowedDirs = env.NANOBANANA_ALLOWED_DIRS?.split(path.delimiter).filter(Boolean);
+  return {
+    allowedDirs: (allowedDirs?.length ? allowedDirs : base.allowedDirs)?.map((dir) => path.resolve(dir)),
+    overwrite: overwrite as OverwritePolicy,
+  };
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (relative.split(path.sep)[0] !== ".." && !path.isAbsolute(relative));
+}
+
+// Resolves symlinks in the longest existing prefix of a path that may not exist yet
+async function realpathLenient(target: string): Promise<string> {
+  try {
+    return await fs.promises.realpath(target);
+  } catch (error) {
+    const parent = path.dirname(target);
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === target) {
+      throw error;
+    }
+    return path.join(await realpathLenient(parent), path.basename(target));
+  }
+}
+
+async function exists(target: string): Promise<boolean> {
+  return fs.promises
+    .lstat(target)
+    .then(() => true)
+    .catch(() => false);
+}
+
+/**
+ * Confines the local files tool calls read and write to a set of root
+ * directories: the configured allowedDirs, else the roots the MCP client
+ * declared, else the fallback roots. Paths are compared after resolving
+ * symlinks, so neither ".." nor a link can lead outside. Without any roots
+ * (e.g. the CLI, run by the user directly) every path is allowed.
+ */
+export class PathSandbox {
+  private clientRoots: Promise<string[] | undefined> = Promise.resolve(undefined);
+
+  constructor(
+    readonly settings: SandboxSettings = DEFAULT_SANDBOX_SETTINGS,
+    private readonly fallbackRoots?: string[]
+  ) {}
+
+  /** Sets the directories of the MCP client's roots, or undefined when it declares none. */
+  setClientRoots(roots: Promise<string[] | undefined>): void {
+    this.clientRoots = roots.catch((error) => {
+      console.error("Could not list client roots:", error);
+      return undefined;
+    });
+  }
+
+  async roots(): Promise<string[] | undefined> {
+    const clientRoots = await this.clientRoots;
+    return this.settings.allowedDirs ?? (clientRoots?.length ? clientRoots : this.fallbackRoots);
+  }
+
+  private async check(filePath: string, realPath: string): Promise<void> {
+    const roots = await this.roots();
+    if (!roots) {
+      return;
+    }
+    const realRoots = await Promise.all(roots.map((root) => realpathLenient(root)));
+    if (!realRoots.some((root) => isWithin(root, realPath))) {
+      throw new ToolError(`${filePath} is outside the allowed directories: ${roots.join(", ")}`, "invalid_input");
+    }
+  }
+
+  /** Resolves a file to read, rejecting missing files and paths outside the roots. */
+  async resolveInput(filePath: string): Promise<string> {
+    const absolute = path.resolve(filePath);
+    let realPath: string;
+    try {
+      realPath = await fs.promises.realpath(absolute);
+    } catch {
+      throw new ToolError(`Input file not found: ${filePath}`, "invalid_input");
+    }
+    await this.check(filePath, realPath);
+    return absolute;
+  }
+
+  /**
+   * Resolves a file to write, rejecting paths outside the roots and applying
+   * the overwrite policy. Returns the path to write, which differs from
+   * filePath when the policy is suffix and the file exists.
+   */
+  async resolveOutput(filePath: string, overwrite: OverwritePolicy = this.settings.overwrite): Promise<string> {
+    const absolute = path.resolve(filePath);
+    await this.check(filePath, await realpathLenient(absolute));
+    if (!(await exists(absolute)) || overwrite === "replace") {
+      return absolute;
+    }
+    if (overwrite === "error") {
+      throw new ToolError(
+        `Output file already exists: ${filePath}. Choose another outputPath, or pass overwrite "replace" or "suffix"`,
+        "invalid_input"
+      );
+    }
+    const ext = path.extname(absolute);
+    const stem = absolute.slice(0, absolute.length - ext.length);
+    for (let n = 1; ; n++) {
+      const candidate = `${stem}_${n}${ext}`;
+      if (!(await exists(candidate))) {
+        return candidate;
+      }
+    }
+  }
+
+  /** Writes through a temp file and rename, so a crash never leaves a truncated file. */
+  async writeFile(filePath: string, data: Buffer): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
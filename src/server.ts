@@ -0,0 +1,69 @@
+import { fileURLToPath } from "url";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { RootsListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ServerConfig } from "./config";
+import { createLocalTransport } from "./local";
+import { SERVER_NAME, SERVER_VERSION } from "./provenance";
+import { PathSandbox } from "./sandbox";
+import { ToolTransport, registerTools } from "./tools";
+
+/**
+ * The MCP server over local files, served on stdio by default and connected
+ * in process by the command line subcommands. Without NANOBANANA_ALLOWED_DIRS,
+ * paths are confined to the client's roots, or to the working directory when
+ * the client declares none; pass a sandbox to change that.
+ */
+export class NanobananaImageMCPServer {
+  private server: McpServer;
+  private config: ServerConfig;
+  private sandbox: PathSandbox;
+  /** Where the tools load inputs, save outputs and keep sessions and usage */
+  readonly toolTransport: ToolTransport;
+
+  constructor(config: ServerConfig, sandbox: PathSandbox = new PathSandbox(config.sandbox, [process.cwd()])) {
+    this.config = config;
+    this.server = new McpServer(
+      {
+        name: SERVER_NAME,
+        version: SERVER_VERSION,
+      },
+      {
+        capabilities: {
+          tools: {},
+          prompts: {},
+        },
+      }
+    );
+
+    this.sandbox = sandbox;
+    this.server.server.oninitialized = () => this.refreshRoots();
+    this.server.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => this.refreshRoots());
+
+    this.toolTransport = createLocalTransport(config, this.sandbox);
+    registerTools(this.server, this.toolTransport);
+  }
+
+  private refreshRoots() {
+    if (!this.server.server.getClientCapabilities()?.roots) {
+      return;
+    }
+    this.sandbox.setClientRoots(
+      this.server.server
+        .listRoots()
+        .then(({ roots }) => roots.filter((root) => root.uri.startsWith("file://")).map((root) => fileURLToPath(root.uri)))
+    );
+  }
+
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async run() {
+    await this.connect(new StdioServerTransport());
+    console.error("Nanobanana MCP Server running on stdio");
+    const backend = { gemini: "Gemini API", vertex: "Vertex AI", replay: "replayed responses" }[this.config.backend];
+    console.error(`Backend: ${backend}, default model: ${this.config.defaultModel}`);
+  }
+}
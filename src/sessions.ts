@@ -0,0 +1,160 @@
+import { randomUUID } from "crypto";
+import { Content, Part } from "@google/genai";
+import { get, put } from "@vercel/blob";
+import { ToolError } from "./errors";
+import { LoadedImage } from "./images";
+
+// One image in an edit session. Step 0 is the input image; every later step
+// is a model turn derived from its parent step.
+export interface SessionStep {
+  index: number;
+  parent: number | null;
+  prompt: string;
+  /** The user turn sent to Gemini for this step (empty for step 0) */
+  userParts: Part[];
+  /** The model turn Gemini returned, kept verbatim so history is replayed without re-encoding */
+  modelParts: Part[];
+  /** Where the step's image was saved (file path or URL), if it was saved */
+  location?: string;
+  createdAt: string;
+}
+
+export interface EditSession {
+  id: string;
+  model: string;
+  /** The image the session started from (step 0) */
+  input: LoadedImage;
+  /** The step that continue_edit_session builds on by default */
+  head: number;
+  steps: SessionStep[];
+  createdAt: string;
+}
+
+/**
+ * Persists edit sessions between tool calls. The stdio server keeps them in
+ * memory; stateless deployments need a store that outlives the request.
+ */
+export interface SessionStore {
+  get(id: string): Promise<EditSession | undefined>;
+  save(session: EditSession): Promise<void>;
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, EditSession>();
+
+  async get(id: string): Promise<EditSession | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async save(session: EditSession): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+}
+
+/**
+ * Stores each session as a private JSON blob under prefix, so sessions
+ * survive across serverless invocations.
+ */
+export class BlobSessionStore implements SessionStore {
+  constructor(private readonly prefix: string) {}
+
+  private pathname(id: string): string {
+    return `${this.prefix}${id}.json`;
+  }
+
+  async get(id: string): Promise<EditSession | undefined> {
+    const result = await get(this.pathname(id), { access: "private", useCache: false });
+    if (!result || !result.stream) {
+      return undefined;
+    }
+    const body = await new Response(result.stream).text();
+    return JSON.parse(body) as EditSession;
+  }
+
+  async save(session: EditSession): Promise<void> {
+    await put(this.pathname(session.id), JSON.stringify(session), {
+      access: "private",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+      contentType: "application/json",
+    });
+  }
+}
+
+// The last queued step of every session with a step in flight
+const pendingSteps = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs the changes to one session one after another: each loads the session
+ * after the previous one saved it, so concurrent calls never build on the
+ * same history and overwrite each other's turn. Serializes within this
+ * process only.
+ */
+export function withSessionLock<T>(id: string, change: () => Promise<T>): Promise<T> {
+  const previous = pendingSteps.get(id) ?? Promise.resolve();
+  const result = previous.then(change);
+  const done = result.catch(() => undefined);
+  pendingSteps.set(id, done);
+  done.then(() => {
+    if (pendingSteps.get(id) === done) {
+      pendingSteps.delete(id);
+    }
+  });
+  return result;
+}
+
+export function createSession(model: string, image: LoadedImage): EditSession {
+  const createdAt = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    model,
+    input: image,
+    head: 0,
+    createdAt,
+    steps: [{ index: 0, parent: null, prompt: "", userParts: [], modelParts: [], createdAt }],
+  };
+}
+
+export function getStep(session: EditSession, index: number): SessionStep {
+  const step = session.steps[index];
+  if (!step) {
+    throw new ToolError(
+      `Session ${session.id} has no step ${index} (steps: 0-${session.steps.length - 1})`,
+      "invalid_input"
+    );
+  }
+  return step;
+}
+
+// The image a step ended with: the input for step 0, the model's image otherwise
+export function stepImage(session: EditSession, index: number): LoadedImage {
+  const step = getStep(session, index);
+  if (step.index === 0) {
+    return session.input;
+  }
+  for (const part of step.modelParts) {
+    if (part.inlineData?.data) {
+      return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType ?? "image/png" };
+    }
+  }
+  throw new Error(`Session ${session.id} step ${index} has no image`);
+}
+
+/**
+ * Builds the Gemini conversation that led to a step by walking its parents
+ * back to the input image, so any earlier step can be branched from.
+ */
+export function historyFor(session: EditSession, index: number): Content[] {
+  const path: SessionStep[] = [];
+  for (let step: SessionStep | undefined = getStep(session, index); step && step.index !== 0; ) {
+    path.unshift(step);
+    step = step.parent === null ? undefined : session.steps[step.parent];
+  }
+
+  const history: Content[] = [];
+  for (const step of path) {
+    history.push({ role: "user", parts: step.userParts });
+    history.push({ role: "model", parts: step.modelParts });
+  }
+  return history;
+}
@@ -0,0 +1,468 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHmac, timingSafeEqual } from "crypto";
+import { get, put } from "@vercel/blob";
+import { AwsClient } from "aws4fetch";
+import { ToolError } from "./errors";
+import { formatFromPath, mimeTypeForFormat } from "./formats";
+
+export const STORAGE_BACKENDS = ["blob", "filesystem", "s3", "inline"] as const;
+
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
+// Path of the companion route that serves filesystem and private blob images
+export const IMAGE_ROUTE_PATH = "/images/";
+
+/**
+ * Where the HTTP route puts output images and how clients get them back.
+ * Every backend returns a URL from save and can read an image back from that
+ * URL (also after a signed URL has expired).
+ */
+export interface ImageStorage {
+  /** Sentence appended to tool descriptions explaining where the output image ends up. */
+  readonly description: string;
+  /** Stores an image under key and returns the URL handed to the client. */
+  save(key: string, image: Buffer, contentType: string): Promise<string>;
+  /** Reads an image back from a URL save returned. */
+  read(location: string): Promise<Buffer>;
+  /** Reads an image by key for the companion /images route. Backends whose URLs point elsewhere omit this. */
+  readKey?(key: string): Promise<{ image: Buffer; contentType: string } | null>;
+}
+
+export interface S3Options {
+  bucket: string;
+  /** e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000 for MinIO; objects are addressed path-style */
+  endpoint: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  /** Base URL for public objects (e.g. a CDN), instead of endpoint/bucket */
+  publicUrl?: string;
+}
+
+export interface StorageOptions {
+  backend: StorageBackend;
+  /** Objects are private and handed out as signed URLs that expire after urlTtlSeconds */
+  private: boolean;
+  urlTtlSeconds: number;
+  /** Prepended to every object key */
+  keyPrefix: string;
+  /** Adds a stable directory per API key (derived from its hash) after keyPrefix */
+  prefixPerApiKey: boolean;
+  /** Base URL of this deployment, for images served by the /images route */
+  publicUrl?: string;
+  /** Secret for signing /images URLs of private objects */
+  signingSecret?: string;
+  /** Directory of the filesystem backend */
+  dir: string;
+  s3?: S3Options;
+}
+
+const DEFAULT_URL_TTL_SECONDS = 3600;
+
+function isTrue(value: string | undefined): boolean {
+  return value === "true" || value === "1";
+}
+
+function required(env: NodeJS.ProcessEnv, name: string, backend: string, fallback?: string): string {
+  const value = env[name] || (fallback && env[fallback]);
+  if (!value) {
+    throw new Error(`${name} is required for STORAGE_BACKEND=${backend}`);
+  }
+  return value;
+}
+
+/**
+ * Reads storage options from STORAGE_BACKEND (blob, filesystem, s3 or
+ * inline; default blob), STORAGE_PRIVATE, STORAGE_URL_TTL_SECONDS,
+ * STORAGE_KEY_PREFIX, STORAGE_PREFIX_PER_API_KEY, STORAGE_PUBLIC_URL,
+ * STORAGE_SIGNING_SECRET, STORAGE_DIR and the S3_* variables. Missing
+ * settings a backend needs are reported up front.
+ */
+export function storageOptionsFromEnv(env: NodeJS.ProcessEnv): StorageOptions {
+  const backend = (env.STORAGE_BACKEND || "blob") as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`Invalid STORAGE_BACKEND: ${backend}. Allowed values: ${STORAGE_BACKENDS.join(", ")}`);
+  }
+
+  const urlTtlSeconds = env.STORAGE_URL_TTL_SECONDS ? Number(env.STORAGE_URL_TTL_SECONDS) : DEFAULT_URL_TTL_SECONDS;
+  if (!Number.isInteger(urlTtlSeconds) || urlTtlSeconds <= 0) {
+    throw new Error(`Invalid STORAGE_URL_TTL_SECONDS: ${env.STORAGE_URL_TTL_SECONDS}`);
+  }
+
+  const options: StorageOptions = {
+    backend,
+    private: isTrue(env.STORAGE_PRIVATE),
+    urlTtlSeconds,
+    keyPrefix: env.STORAGE_KEY_PREFIX ?? "",
+    prefixPerApiKey: isTrue(env.STORAGE_PREFIX_PER_API_KEY),
+    publicUrl: env.STORAGE_PUBLIC_URL?.replace(/\/+$/, ""),
+    signingSecret: env.STORAGE_SIGNING_SECRET,
+    dir: path.resolve(env.STORAGE_DIR || "data/images"),
+  };
+
+  // Filesystem and private blob images are served by the /images route
+  const servedByRoute = backend === "filesystem" || (backend === "blob" && options.private);
+  if (servedByRoute) {
+    required(env, "STORAGE_PUBLIC_URL", backend);
+    if (options.private) {
+      required(env, "STORAGE_SIGNING_SECRET", backend);
+    }
+  }
+  if (backend === "s3") {
+    const region = env.S3_REGION || env.AWS_REGION || "us-east-1";
+    options.s3 = {
+      bucket: required(env, "S3_BUCKET", backend),
+      endpoint: (env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ""),
+      region,
+      accessKeyId: required(env, "S3_ACCESS_KEY_ID", backend, "AWS_ACCESS_KEY_ID"),
+      secretAccessKey: required(env, "S3_SECRET_ACCESS_KEY", backend, "AWS_SECRET_ACCESS_KEY"),
+      sessionToken: env.S3_SESSION_TOKEN || env.AWS_SESSION_TOKEN || undefined,
+      publicUrl: env.S3_PUBLIC_URL?.replace(/\/+$/, ""),
+    };
+  }
+  return options;
+}
+
+// The object key for a new image: prefix, optional per-API-key directory, file name
+export function storageKey(options: StorageOptions, apiKeyHash: string, filename: string): string {
+  const keyDir = options.prefixPerApiKey ? `${apiKeyHash.slice(0, 16)}/` : "";
+  return `${options.keyPrefix}${keyDir}${filename}`;
+}
+
+/**
+ * Whether the /images route may serve key: only keys of the shape storageKey
+ * builds, with an image extension, so other objects in the store (such as
+ * session and job records) are never handed out.
+ */
+export function isImageKey(options: StorageOptions, key: string): boolean {
+  if (!key.startsWith(options.keyPrefix)) {
+    return false;
+  }
+  const parts = key.slice(options.keyPrefix.length).split("/");
+  const filename = parts.pop() as string;
+  const keyDirOk = parts.length === 0 || (options.prefixPerApiKey && parts.length === 1 && /^[0-9a-f]{16}$/.test(parts[0]));
+  return keyDirOk && formatFromPath(filename) !== undefined;
+}
+
+/**
+ * Whether the /images route serves images at all: for the filesystem backend,
+ * and for private blobs whose URLs are signed. Public blobs have their own
+ * URLs, and serving the store through the route would bypass signing.
+ */
+export function servedByImageRoute(options: StorageOptions): boolean {
+  return options.backend === "filesystem" || (options.backend === "blob" && options.private && !!options.signingSecret);
+}
+
+// Keys are joined into paths and URLs, so they must not climb out of their root
+function checkKey(key: string): string {
+  if (key.length === 0 || key.startsWith("/") || key.split("/").some((part) => part === ".." || part === ".")) {
+    throw new ToolError(`Invalid image key: ${key}`, "invalid_input");
+  }
+  return key;
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
+
+function contentTypeForKey(key: string): string {
+  const format = formatFromPath(key);
+  return format ? mimeTypeForFormat(format) : "application/octet-stream";
+}
+
+/**
+ * Builds and checks URLs of the /images route. With a signing secret, URLs
+ * carry an expiry time and an HMAC of key and expiry, so private images can
+ * be shared for a limited time without credentials.
+ */
+export class ImageUrlSigner {
+  constructor(
+    private readonly publicUrl: string,
+    private readonly secret: string | undefined,
+    private readonly ttlSeconds: number
+  ) {}
+
+  private signature(key: string, expires: number): string {
+    return createHmac("sha256", this.secret ?? "").update(`${key}\n${expires}`).digest("base64url");
+  }
+
+  url(key: string): string {
+    const url = `${this.publicUrl}${IMAGE_ROUTE_PATH}${encodeKey(key)}`;
+    if (!this.secret) {
+      return url;
+    }
+    const expires = Math.floor(Date.now() / 1000) + this.ttlSeconds;
+    return `${url}?expires=${expires}&signature=${this.signature(key, expires)}`;
+  }
+
+  /** Whether a request for key carries a valid, unexpired signature (always true without a secret). */
+  verify(key: string, expires: string | null, signature: string | null): boolean {
+    if (!this.secret) {
+      return true;
+    }
+    const expiresAt = Number(expires);
+    if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+      return false;
+    }
+    const expected = Buffer.from(this.signature(key, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  keyFromUrl(location: string): string {
+    const pathname = new URL(location).pathname;
+    const start = pathname.indexOf(IMAGE_ROUTE_PATH);
+    if (start < 0) {
+      throw new ToolError(`Not an image URL of this server: ${location}`, "invalid_input");
+    }
+    return checkKey(decodeURIComponent(pathname.slice(start + IMAGE_ROUTE_PATH.length)));
+  }
+}
+
+async function fetchImage(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image from URL: ${url} (${response.status} ${response.statusText})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Vercel Blob. Public objects are returned by their blob URL; private ones
+ * through signed /images URLs, as blob URLs of private objects need the
+ * store token.
+ */
+export class BlobImageStorage implements ImageStorage {
+  readonly description: string;
+
+  constructor(private readonly signer?: ImageUrlSigner) {
+    this.description = signer
+      ? "The image is stored privately in Vercel Blob and a signed, expiring URL is returned."
+      : "The image is uploaded to Vercel Blob and the URL is returned.";
+  }
+
+  async save(key: string, image: Buffer, contentType: string): Promise<string> {
+    if (!this.signer) {
+      const blob = await put(checkKey(key), image, { access: "public", contentType });
+      return blob.url;
+    }
+    await put(checkKey(key), image, { access: "private", contentType, addRandomSuffix: false });
+    return this.signer.url(key);
+  }
+
+  async read(location: string): Promise<Buffer> {
+    if (!this.signer) {
+      return fetchImage(location);
+    }
+    const found = await this.readKey(this.signer.keyFromUrl(location));
+    if (!found) {
+      throw new ToolError(`Image not found: ${location}`, "invalid_input");
+    }
+    return found.image;
+  }
+
+  async readKey(key: string): Promise<{ image: Buffer; contentType: string } | null> {
+    const result = await get(checkKey(key), { access: "private", useCache: false });
+    if (!result || !result.stream) {
+      return null;
+    }
+    return {
+      image: Buffer.from(await new Response(result.stream).arrayBuffer()),
+      contentType: result.blob.contentType || contentTypeForKey(key),
+    };
+  }
+}
+
+// Files under a local directory, served back by the /images route
+export class FilesystemImageStorage implements ImageStorage {
+  readonly description = "The image is stored on the server and its URL is returned.";
+
+  constructor(
+    private readonly dir: string,
+    private readonly signer: ImageUrlSigner
+  ) {}
+
+  private filePath(key: string): string {
+    return path.join(this.dir, checkKey(key));
+  }
+
+  async save(key: string, image: Buffer): Promise<string> {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, image);
+    return this.signer.url(key);
+  }
+
+  async read(location: string): Promise<Buffer> {
+    return fs.promises.readFile(this.filePath(this.signer.keyFromUrl(location)));
+  }
+
+  async readKey(key: string): Promise<{ image: Buffer; contentType: string } | null> {
+    try {
+      return { image: await fs.promises.readFile(this.filePath(key)), contentType: contentTypeForKey(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * An S3-compatible bucket (AWS S3, MinIO, R2, ...), addressed path-style.
+ * Private objects are handed out as presigned GET URLs; public ones by URL,
+ * which requires a bucket policy that allows reading them.
+ */
+export class S3ImageStorage implements ImageStorage {
+  readonly description: string;
+  private readonly client: AwsClient;
+
+  constructor(
+    private readonly options: S3Options,
+    private readonly urlTtlSeconds?: number
+  ) {
+    this.client = new AwsClient({
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      sessionToken: options.sessionToken,
+      service: "s3",
+      region: options.region,
+    });
+    this.description =
+      urlTtlSeconds !== undefined
+        ? "The image is stored privately in object storage and a signed, expiring URL is returned."
+        : "The image is uploaded to object storage and the URL is returned.";
+  }
+
+  private objectUrl(key: string): string {
+    return `${this.options.endpoint}/${this.options.bucket}/${encodeKey(checkKey(key))}`;
+  }
+
+  async save(key: string, image: Buffer, contentType: string): Promise<string> {
+    const response = await this.client.fetch(this.objectUrl(key), {
+      method: "PUT",
+      body: image,
+      headers: { "Content-Type": contentType },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to upload ${key} to S3: ${response.status} ${await response.text()}`);
+    }
+    if (this.urlTtlSeconds === undefined) {
+      return this.options.publicUrl ? `${this.options.publicUrl}/${encodeKey(key)}` : this.objectUrl(key);
+    }
+    const url = new URL(this.objectUrl(key));
+    url.searchParams.set("X-Amz-Expires", String(this.urlTtlSeconds));
+    const signed = await this.client.sign(url.toString(), { method: "GET", aws: { signQuery: true } });
+    return signed.url;
+  }
+
+  // Locations are objectUrl or publicUrl based, possibly with a (stale) signature
+  private keyFromLocation(location: string): string {
+    const url = new URL(location);
+    for (const base of [this.options.publicUrl, `${this.options.endpoint}/${this.options.bucket}`]) {
+      if (!base) {
+        continue;
+      }
+      const basePath = new URL(base).pathname.replace(/\/+$/, "");
+      if (url.origin === new URL(base).origin && url.pathname.startsWith(`${basePath}/`)) {
+        return checkKey(decodeURIComponent(url.pathname.slice(basePath.length + 1)));
+      }
+    }
+    throw new ToolError(`Not an object URL of bucket ${this.options.bucket}: ${location}`, "invalid_input");
+  }
+
+  async read(location: string): Promise<Buffer> {
+    const key = this.keyFromLocation(location);
+    const response = await this.client.fetch(this.objectUrl(key), { method: "GET" });
+    if (!response.ok) {
+      throw new Error(`Failed to read ${key} from S3: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+// Nothing is stored: the image comes back as a data URL in the tool result
+export class InlineImageStorage implements ImageStorage {
+  readonly description = "The image is returned inline as a data URL.";
+
+  async save(_key: string, image: Buffer, contentType: string): Promise<string> {
+    return `data:${contentType};base64,${image.toString("base64")}`;
+  }
+
+  async read(location: string): Promise<Buffer> {
+    const match = location.match(/^data:[^;,]+;base64,(.*)$/);
+    if (!match) {
+      throw new ToolError("Not a base64 data URL", "invalid_input");
+    }
+    return Buffer.from(match[1], "base64");
+  }
+}
+
+// Signs /images URLs only for private objects
+export function createImageUrlSigner(options: StorageOptions): ImageUrlSigner {
+  return new ImageUrlSigner(
+    options.publicUrl ?? "",
+    options.private ? options.signingSecret : undefined,
+    options.urlTtlSeconds
+  );
+}
+
+export function createImageStorage(options: StorageOptions): ImageStorage {
+  switch (options.backend) {
+    case "filesystem":
+      return new FilesystemImageStorage(options.dir, createImageUrlSigner(options));
+    case "s3":
+      return new S3ImageStorage(options.s3 as S3Options, options.private ? options.urlTtlSeconds : undefined);
+    case "inline":
+      return new InlineImageStorage();
+    default:
+      return new BlobImageStorage(options.private ? createImageUrlSigner(options) : undefined);
+  }
+}
+
+/**
+ * The handler of the /images route, configured from env like the /mcp
+ * route: serves images of the filesystem backend and private Vercel Blob
+ * objects, checking the signature of private image URLs. Other objects in the
+ * store, such as session and job records, are not found.
+ */
+export function createImageRouteHandler(env: NodeJS.ProcessEnv): (req: Request) => Promise<Response> {
+  const options = storageOptionsFromEnv(env);
+  const storage = createImageStorage(options);
+  const signer = createImageUrlSigner(options);
+
+  return async (req) => {
+    if (!storage.readKey || !servedByImageRoute(options)) {
+      return new Response("Not found", { status: 404 });
+    }
+    let found;
+    try {
+      const key = signer.keyFromUrl(req.url);
+      if (!isImageKey(options, key)) {
+        return new Response("Not found", { status: 404 });
+      }
+      const url = new URL(req.url);
+      if (!signer.verify(key, url.searchParams.get("expires"), url.searchParams.get("signature"))) {
+        return new Response("Invalid or expired signature", { status: 403 });
+      }
+      found = await storage.readKey(key);
+    } catch (error) {
+      if (error instanceof ToolError && error.category === "invalid_input") {
+        return new Response(error.message, { status: 400 });
+      }
+      throw error;
+    }
+    if (!found) {
+      return new Response("Not found", { status: 404 });
+    }
+    return new Response(new Uint8Array(found.image), {
+      headers: {
+        "Content-Type": found.contentType,
+        "Cache-Control": options.private ? "private, max-age=60" : "public, max-age=31536000, immutable",
+      },
+    });
+  };
+}
@@ -0,0 +1,221 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { ToolError } from "./errors";
+
+export const STYLE_CATEGORIES = ["photography", "illustration", "icon", "palette", "negative"] as const;
+
+const STYLE_NAME = /^[a-z0-9][a-z0-9_-]*$/;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const styleSchema = z
+  .object({
+    /** Used as the style argument and the MCP prompt name; defaults to the file name */
+    name: z.string().regex(STYLE_NAME, "Use lowercase letters, digits, - and _").optional(),
+    description: z.string(),
+    category: z.enum(STYLE_CATEGORIES),
+    /** The prompt sent to the model, with {{subject}} standing for the caller's prompt */
+    template: z.string().refine((template) => template.includes("{{subject}}"), {
+      message: "The template must contain {{subject}}",
+    }),
+    /** Further {{name}} placeholders; without a default the caller must supply a value */
+    variables: z
+      .record(z.string(), z.object({ description: z.string(), default: z.string().optional() }).strict())
+      .optional(),
+    /** Negative guidance, appended as "Avoid: ..." */
+    avoid: z.string().optional(),
+  })
+  .strict()
+  .superRefine((style, context) => {
+    if (style.variables?.subject) {
+      context.addIssue({ code: "custom", path: ["variables"], message: "subject is the caller's prompt, not a variable" });
+    }
+    for (const [, name] of style.template.matchAll(PLACEHOLDER)) {
+      if (name !== "subject" && !style.variables?.[name]) {
+        context.addIssue({ code: "custom", path: ["template"], message: `{{${name}}} is not a declared variable` });
+      }
+    }
+  });
+
+export type StylePreset = z.infer<typeof styleSchema> & { name: string };
+
+const BUILTIN_STYLES: StylePreset[] = [
+  {
+    name: "product-shot",
+    description: "E-commerce product photo on a seamless studio background",
+    category: "photography",
+    template:
+      "Professional product photograph of {{subject}}, centered on a seamless {{background}} background, soft diffused studio lighting, subtle natural shadow, sharp focus, high detail",
+    variables: { background: { description: "Background color", default: "white" } },
+    avoid: "props, clutter, text, watermarks, reflections of the photographer",
+  },
+  {
+    name: "studio-portrait",
+    description: "Headshot with soft key light and a plain backdrop",
+    category: "photography",
+    template:
+      "Studio portrait of {{subject}}, soft key light with gentle fill, shallow depth of field, 85mm lens, plain {{backdrop}} backdrop, natural skin tones",
+    variables: { backdrop: { description: "Backdrop color or texture", default: "light gray" } },
+    avoid: "harsh shadows, heavy retouching, distorted features",
+  },
+  {
+    name: "cinematic-still",
+    description: "Wide film still with dramatic lighting and color grading",
+    category: "photography",
+    template:
+      "Cinematic film still of {{subject}}, anamorphic widescreen composition, dramatic lighting, {{grade}} color grade, fine film grain",
+    variables: { grade: { description: "Color grade", default: "teal and orange" } },
+  },
+  {
+    name: "watercolor",
+    description: "Loose hand-painted watercolor illustration",
+    category: "illustration",
+    template:
+      "Watercolor illustration of {{subject}}, loose wet-on-wet washes, visible paper texture, soft bleeding edges, light and airy palette",
+  },
+  {
+    name: "isometric-illustration",
+    description: "Clean isometric 3D illustration, as for landing pages",
+    category: "illustration",
+    template:
+      "Isometric 3D illustration of {{subject}}, clean geometric shapes, soft gradients, gentle ambient occlusion, plain {{background}} background",
+    variables: { background: { description: "Background color", default: "white" } },
+    avoid: "perspective distortion, text, clutter",
+  },
+  {
+    name: "flat-vector-icon",
+    description: "Flat vector app icon, consistent across an icon set",
+    category: "icon",
+    template:
+      "Flat vector icon of {{subject}}, as part of a consistent icon set: simple geometric shapes, bold solid fills, no gradients, centered on a plain {{background}} background with generous padding",
+    variables: { background: { description: "Background color", default: "white" } },
+    avoid: "text, drop shadows, photorealism, fine detail, 3D effects",
+  },
+  {
+    name: "line-icon",
+    description: "Outline icon with uniform stroke width",
+    category: "icon",
+    template:
+      "Minimal line icon of {{subject}}, as part of a consistent icon set: uniform {{stroke}} strokes with rounded caps, no fills, single color on a plain white background",
+    variables: { stroke: { description: "Stroke weight", default: "2px" } },
+    avoid: "text, fills, shading, gradients",
+  },
+  {
+    name: "brand-palette",
+    description: "Restricts the image to a given set of brand colors",
+    category: "palette",
+    template: "{{subject}}. Use only these colors: {{colors}}; no other hues.",
+    variables: { colors: { description: "Brand colors, e.g. '#0B3D91 navy, #FC3D21 red, #FFFFFF white'" } },
+  },
+  {
+    name: "clean-output",
+    description: "Negative guidance against common artifacts",
+    category: "negative",
+    template: "{{subject}}",
+    avoid: "text, captions, watermarks, logos, signatures, borders, frames, extra or malformed fingers, distorted faces",
+  },
+];
+
+const STYLE_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+// One style per file, named after the file unless it sets name
+function readStyleFile(filePath: string): StylePreset {
+  let raw: unknown;
+  try {
+    raw = parseYaml(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read style file ${filePath}: ${message}`);
+  }
+  const parsed = styleSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid style file ${filePath}: ${z.prettifyError(parsed.error)}`);
+  }
+  const name = parsed.data.name ?? path.basename(filePath, path.extname(filePath));
+  if (!STYLE_NAME.test(name)) {
+    throw new Error(`Invalid style name ${name} in ${filePath}: use lowercase letters, digits, - and _`);
+  }
+  return { ...parsed.data, name };
+}
+
+// Fills {{name}} placeholders; the caller checks every name has a value
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * The named styles the image tools' style argument and the MCP prompts
+ * offer: the built-in ones, extended or overridden by the JSON and YAML
+ * files of a styles directory.
+ */
+export class StyleLibrary {
+  private readonly styles = new Map<string, StylePreset>();
+
+  constructor(styles: StylePreset[] = BUILTIN_STYLES) {
+    for (const style of styles) {
+      this.styles.set(style.name, style);
+    }
+  }
+
+  /** The built-in styles plus every style file in dir; a file with a built-in's name replaces it. */
+  static load(dir?: string): StyleLibrary {
+    if (!dir) {
+      return new StyleLibrary();
+    }
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir).filter((file) => STYLE_FILE_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read styles directory ${dir}: ${message}`);
+    }
+    return new StyleLibrary([...BUILTIN_STYLES, ...files.sort().map((file) => readStyleFile(path.join(dir, file)))]);
+  }
+
+  list(): StylePreset[] {
+    return [...this.styles.values()];
+  }
+
+  private get(name: string): StylePreset {
+    const style = this.styles.get(name);
+    if (!style) {
+      throw new ToolError(`Unknown style: ${name}. Available styles: ${[...this.styles.keys()].join(", ")}`, "invalid_input");
+    }
+    return style;
+  }
+
+  /**
+   * Wraps a prompt in one or more styles, in order: each style's template
+   * takes the result so far as {{subject}}, and their negative guidance is
+   * collected into one "Avoid:" line. Every variable must be used by one of
+   * the styles, and every variable without a default must be given.
+   */
+  apply(prompt: string, names: string[], variables: Record<string, string> = {}): string {
+    const styles = names.map((name) => this.get(name));
+    const known = new Set(styles.flatMap((style) => Object.keys(style.variables ?? {})));
+    const unused = Object.keys(variables).filter((name) => !known.has(name));
+    if (unused.length > 0) {
+      throw new ToolError(`No selected style has the variable(s): ${unused.join(", ")}`, "invalid_input");
+    }
+
+    let styled = prompt;
+    const avoid: string[] = [];
+    for (const style of styles) {
+      const values: Record<string, string> = { subject: styled };
+      for (const [name, variable] of Object.entries(style.variables ?? {})) {
+        const value = variables[name] ?? variable.default;
+        if (value === undefined) {
+          throw new ToolError(`Style ${style.name} needs the variable ${name}: ${variable.description}`, "invalid_input");
+        }
+        values[name] = value;
+      }
+      styled = fillTemplate(style.template, values);
+      if (style.avoid) {
+        avoid.push(style.avoid);
+      }
+    }
+    return avoid.length > 0 ? `${styled}\n\nAvoid: ${avoid.join("; ")}.` : styled;
+  }
+}
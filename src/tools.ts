@@ -0,0 +1,2138 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Part } from "@google/genai";
+import * as path from "path";
+import { z, ZodRawShape } from "zod";
+import {
+  BatchJob,
+  BatchManifest,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  expandJobs,
+  isRemoteInput,
+  loadManifest,
+  parseManifest,
+} from "./batch";
+import {
+  ALLOWED_MODELS,
+  ASPECT_RATIOS,
+  AspectRatio,
+  ContentPart,
+  DEFAULT_MODEL,
+  GeminiClient,
+  GeminiModel,
+  IMAGE_SIZES,
+  ImageSize,
+  SAFETY_THRESHOLDS,
+  SafetyThreshold,
+  buildImageConfig,
+  buildSafetySettings,
+  ImageVariant,
+  extractText,
+  extractVariants,
+  generateImageVariants,
+  noOutputError,
+} from "./gemini";
+import { ANALYSIS_PRESETS, AnalysisPreset, presetJsonSchema, presetPrompt, structuredAnswerParser } from "./analysis";
+import { CacheLookup, ResultCache, describeCacheStats } from "./cache";
+import {
+  DEFAULT_CHANGE_THRESHOLD,
+  ImageComparison,
+  Verdict,
+  diffImages,
+  renderDiffImage,
+  verdictJsonSchema,
+  verificationPrompt,
+} from "./compare";
+import { ErrorCategory, ToolError, classifyError, toolErrorResult } from "./errors";
+import { UrlPolicy } from "./fetch";
+import {
+  FIT_MODES,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  OutputOptions,
+  extensionForMimeType,
+  processOutput,
+} from "./formats";
+import { ImageJob, JOB_STATUSES, JobStatus, JobStore, createJob } from "./jobs";
+import { LoadedImage, PREVIEW_MAX_DIMENSION, createPreview, loadImageFromUrl, readImageInfo } from "./images";
+import { MaskRegion, applyMask, normalizeMask, renderRegionMask } from "./masks";
+import { OUTPUT_URI_PREFIX, OutputStore } from "./outputs";
+import {
+  Provenance,
+  ProvenanceInput,
+  SERVER_VERSION,
+  embedProvenance,
+  hasXmp,
+  provenanceInput,
+  readProvenance,
+} from "./provenance";
+import { ToolExtra, ToolProgress } from "./progress";
+import { GeminiCaller } from "./retry";
+import { CallUsage, UsageLedger, UsageSummary, describeUsage, formatCost } from "./usage";
+import { EditSession, SessionStore, createSession, getStep, historyFor, stepImage, withSessionLock } from "./sessions";
+import { StyleLibrary } from "./styles";
+
+// Upper bound for the count argument, to keep a single call's cost bounded
+const MAX_VARIANTS = 8;
+
+// What an image-producing tool made, used by sinks to name their outputs
+export type OutputKind = "generated" | "edited" | "composite" | "diff";
+
+// How much of an output image to embed in the tool result
+export type IncludeImage = "none" | "preview" | "full";
+
+/**
+ * Everything that differs between the stdio server and the HTTP route: where
+ * input images can come from, where output images go, and how the Gemini
+ * client is obtained for the current request.
+ */
+export interface ToolTransport {
+  /** Returns the Gemini client to use for the current tool call. */
+  getGeminiClient(): GeminiClient;
+  /** Sends every Gemini request with the transport's timeout, retry and concurrency policy. Shared across tool calls. */
+  geminiCaller: GeminiCaller;
+  /** Model used when a call does not pick one (default: DEFAULT_MODEL). */
+  defaultModel?: GeminiModel;
+  /** Size, time and network limits for downloading input image URLs (default: DEFAULT_URL_POLICY). */
+  urlPolicy?: UrlPolicy;
+  /** Loads a local image file. Transports without filesystem access omit this, which hides the path arguments. */
+  loadImageFromFile?(filePath: string): Promise<LoadedImage>;
+  /** Resolves another local file a tool reads, such as a batch manifest, rejecting paths the transport does not allow. */
+  resolveInputPath?(filePath: string): Promise<string>;
+  /** Extra arguments the output sink needs on every image-producing tool (e.g. outputPath). */
+  outputShape: ZodRawShape;
+  /** Sentence appended to tool descriptions explaining where the output image ends up. */
+  outputDescription: string;
+  /** Format implied by where the output goes (e.g. outputPath's extension), used when no format argument is given. */
+  outputFormat?(args: Record<string, unknown>): OutputFormat | undefined;
+  /**
+   * Persists an output image and returns its location (file path or URL).
+   * variant is the 1-based index when a call asked for several images.
+   */
+  saveImage(
+    image: Buffer,
+    mimeType: string,
+    kind: OutputKind,
+    args: Record<string, unknown>,
+    variant?: number
+  ): Promise<string>;
+  /** Rejects a location saveImage would refuse (e.g. an outputPath that exists), so calls fail before any Gemini request. Sinks that take every image omit this. */
+  checkOutput?(args: Record<string, unknown>, variant?: number): Promise<void>;
+  /** Whether saveImage would overwrite an existing image, so batch jobs can skip it. Sinks without stable locations omit this, which hides batch_generate. */
+  outputExists?(args: Record<string, unknown>, variant?: number): Promise<boolean>;
+  /** Reads a previously saved output image back from its location. */
+  readImage(location: string): Promise<Buffer>;
+  /** Returns the store that tracks outputs for the current session. */
+  getOutputStore(): OutputStore;
+  /** Returns the store that keeps multi-turn edit sessions for the current caller. */
+  getSessionStore(): SessionStore;
+  /** Returns the ledger that tracks token usage, cost and the spending cap for the current caller. */
+  getUsageLedger(): UsageLedger;
+  /** Returns the cache of Gemini responses for the current caller. Transports without a cache omit this, which hides bypassCache. */
+  getResultCache?(): ResultCache;
+  /** Models the current caller may use, or undefined for all of them (e.g. a bearer token's allowlist). */
+  getAllowedModels?(): readonly GeminiModel[] | undefined;
+  /** Named styles for the style argument and the MCP prompts (default: the built-in ones). */
+  styles?: StyleLibrary;
+  /** Returns the store of background jobs for the current caller. Transports without jobs omit this, which hides the async argument and the job tools. */
+  getJobStore?(): JobStore;
+  /** Whether image tools run as background jobs when a call does not say (default: false). */
+  asyncByDefault?: boolean;
+  /** Keeps the instance alive until a background job has finished, after the response was sent (default: the job just runs on). */
+  waitUntil?(work: Promise<void>): void;
+}
+
+// Types for tool arguments
+interface StyleArgs {
+  style?: string | string[];
+  styleVariables?: Record<string, string>;
+}
+
+interface GenerateImageArgs extends OutputOptions, StyleArgs {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageSize?: ImageSize;
+  count: number;
+  includeImage: IncludeImage;
+  model: GeminiModel;
+  safetyThreshold?: SafetyThreshold;
+  bypassCache?: boolean;
+}
+
+interface EditImageArgs extends OutputOptions, StyleArgs {
+  inputPath?: string;
+  imageUrl?: string;
+  maskPath?: string;
+  maskUrl?: string;
+  regions?: MaskRegion[];
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  count: number;
+  includeImage: IncludeImage;
+  model: GeminiModel;
+  safetyThreshold?: SafetyThreshold;
+  bypassCache?: boolean;
+}
+
+interface CompositeImagesArgs extends OutputOptions, StyleArgs {
+  imagePaths?: string[];
+  imageUrls?: string[];
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageSize?: ImageSize;
+  count: number;
+  includeImage: IncludeImage;
+  model: GeminiModel;
+  safetyThreshold?: SafetyThreshold;
+  bypassCache?: boolean;
+}
+
+interface StartEditSessionArgs extends OutputOptions {
+  inputPath?: string;
+  imageUrl?: string;
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  includeImage: IncludeImage;
+  model: GeminiModel;
+  safetyThreshold?: SafetyThreshold;
+}
+
+interface ContinueEditSessionArgs extends OutputOptions {
+  sessionId: string;
+  fromStep?: number;
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  includeImage: IncludeImage;
+  safetyThreshold?: SafetyThreshold;
+}
+
+interface SessionIdArgs {
+  sessionId: string;
+}
+
+interface RevertSessionArgs {
+  sessionId: string;
+  step: number;
+}
+
+interface ReadImageMetadataArgs {
+  imagePath?: string;
+  imageUrl?: string;
+}
+
+interface UsageReportArgs {
+  sinceMinutes?: number;
+}
+
+interface CompareImagesArgs {
+  beforePath?: string;
+  beforeUrl?: string;
+  afterPath?: string;
+  afterUrl?: string;
+  threshold: number;
+  includeDiff: IncludeImage;
+  saveDiff: boolean;
+  diffPath?: string;
+  expectedChange?: string;
+  model: GeminiModel;
+  safetyThreshold?: SafetyThreshold;
+}
+
+interface JobStatusArgs {
+  jobId: string;
+}
+
+interface ListJobsArgs {
+  status?: JobStatus;
+  limit: number;
+}
+
+interface BatchGenerateArgs {
+  manifestPath?: string;
+  manifest?: string;
+  force: boolean;
+  concurrency?: number;
+}
+
+interface AnalyzeImageArgs {
+  imagePath?: string;
+  imageUrl?: string;
+  prompt?: string;
+  preset?: AnalysisPreset;
+  schema?: Record<string, unknown>;
+  model: GeminiModel;
+  safetyThreshold?: SafetyThreshold;
+}
+
+function createModelSchema(defaultModel: GeminiModel) {
+  return z
+    .enum(ALLOWED_MODELS)
+    .default(defaultModel)
+    .describe(
+      `Gemini model to use for image generation. Allowed values: ${ALLOWED_MODELS.join(", ")}. Default: ${defaultModel}`
+    );
+}
+
+const imageSizeSchema = z
+  .enum(IMAGE_SIZES)
+  .optional()
+  .describe(
+    "Output resolution (1K, 2K or 4K). Only supported by gemini-3.1-flash-image and gemini-3-pro-image. Default: the model's own default (1K)"
+  );
+
+const pixelSchema = z.number().min(0);
+
+const regionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("rectangle"),
+    x: pixelSchema.describe("Left edge in pixels"),
+    y: pixelSchema.describe("Top edge in pixels"),
+    width: pixelSchema.describe("Width in pixels"),
+    height: pixelSchema.describe("Height in pixels"),
+  }),
+  z.object({
+    type: z.literal("polygon"),
+    points: z
+      .array(z.object({ x: pixelSchema, y: pixelSchema }))
+      .min(3)
+      .describe("Polygon vertices in pixels"),
+  }),
+]);
+
+const countSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(MAX_VARIANTS)
+  .default(1)
+  .describe(`Number of image variants to generate, 1-${MAX_VARIANTS} (default: 1). Each variant is a separate model request.`);
+
+const safetyThresholdSchema = z
+  .enum(SAFETY_THRESHOLDS)
+  .optional()
+  .describe(
+    "Blocking threshold for Gemini's adjustable safety filters (harassment, hate speech, sexually explicit, dangerous content). Default: Gemini's own defaults. Some filters, such as those on generated images, cannot be adjusted"
+  );
+
+// Conversion and resizing applied to every output image before it is saved
+const outputOptionsShape = {
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe("Output format: png, jpeg or webp. Default: implied by the output file extension, else the format the model returned"),
+  quality: z.number().int().min(1).max(100).optional().describe("JPEG/WebP quality, 1-100 (default: 80)"),
+  width: z.number().int().positive().max(8192).optional().describe("Resize the output to this width in pixels"),
+  height: z.number().int().positive().max(8192).optional().describe("Resize the output to this height in pixels"),
+  fit: z
+    .enum(FIT_MODES)
+    .optional()
+    .describe(
+      "How to reach exact dimensions when both width and height are given: crop (fill and cut off the overflow, default), pad (fit inside and pad) or stretch"
+    ),
+  padColor: z
+    .string()
+    .optional()
+    .describe("Padding color for fit=pad, e.g. #000000 (default: transparent, or white for JPEG)"),
+  embedMetadata: z
+    .boolean()
+    .default(true)
+    .describe(
+      "Embed provenance (prompt, model, aspect ratio, input image hashes, timestamp, server version) in the image file as XMP. Read it back with read_image_metadata. Default: true"
+    ),
+};
+
+// Only offered when the transport has a result cache
+const cacheShape = {
+  bypassCache: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Skip the result cache and always call Gemini; the new result replaces the cached one. Default: false, so an identical earlier request is answered from the cache without a new billed request"
+    ),
+};
+
+// Offered on the image tools, listing the transport's styles
+function createStyleShape(styles: StyleLibrary) {
+  const names = styles.list().map((style) => style.name);
+  return {
+    style: z
+      .union([z.string(), z.array(z.string()).min(1)])
+      .optional()
+      .describe(
+        `Named style preset, or several applied in order, that wraps the prompt, e.g. "product-shot" or ["flat-vector-icon", "brand-palette"]. Available: ${names.join(", ")}. Each style is also an MCP prompt describing it`
+      ),
+    styleVariables: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe('Values for the styles\' template variables, e.g. {"colors": "#0B3D91 navy, #FC3D21 red"}. Variables left out use the style\'s default'),
+  };
+}
+
+// Offered on the image tools when the transport runs background jobs
+function createAsyncShape(asyncByDefault: boolean) {
+  return {
+    async: z
+      .boolean()
+      .default(asyncByDefault)
+      .describe(
+        `Return a job id at once and run the call in the background; poll get_job_status for the result and output URLs. Use it for slow models and large composites that could outlast the request. Default: ${asyncByDefault}`
+      ),
+  };
+}
+
+const includeImageSchema = z
+  .enum(["none", "preview", "full"])
+  .default("none")
+  .describe(
+    `Embed the output image in the tool result: none (default), preview (JPEG downscaled to at most ${PREVIEW_MAX_DIMENSION}px on the longest side), or full (the original image)`
+  );
+
+async function loadImage(
+  transport: ToolTransport,
+  filePath: string | undefined,
+  imageUrl: string | undefined
+): Promise<LoadedImage | null> {
+  if (imageUrl) {
+    return loadImageFromUrl(imageUrl, transport.urlPolicy);
+  }
+  if (filePath && transport.loadImageFromFile) {
+    return transport.loadImageFromFile(filePath);
+  }
+  return null;
+}
+
+// Data URLs from inline storage are too long to repeat in summaries; the
+// image is reachable through its resource link
+function describeLocation(location: string): string {
+  return location.startsWith("data:") ? "inline data URL (see the resource link)" : location;
+}
+
+// Real pixel size of an output image, as reported back to the caller
+function describeDimensions(image: Buffer): string {
+  const info = readImageInfo(image);
+  return info ? `${info.width}x${info.height}` : "unknown";
+}
+
+const OUTPUT_TITLES: Record<OutputKind, string> = {
+  generated: "Generated image",
+  edited: "Edited image",
+  composite: "Composite image",
+  diff: "Diff image",
+};
+
+// Describes a variant's finish reason, model text and error for the summary
+function describeVariant(variant: ImageVariant): string[] {
+  const lines: string[] = [];
+  if (variant.finishReason) {
+    lines.push(`Finish reason: ${variant.finishReason}`);
+  }
+  if (variant.finishMessage) {
+    lines.push(`Finish message: ${variant.finishMessage}`);
+  }
+  if (variant.safetyCategories && variant.safetyCategories.length > 0) {
+    lines.push(`Safety categories: ${variant.safetyCategories.join(", ")}`);
+  }
+  if (variant.text.length > 0) {
+    lines.push(`Model text: ${variant.text.join(" ")}`);
+  }
+  if (variant.error) {
+    lines.push(`Error: ${variant.error}`);
+  }
+  return lines;
+}
+
+// What a tool call contributes to the provenance of each image it produced
+type ProvenanceSource = Pick<Provenance, "tool" | "model" | "inputs" | "session">;
+
+/**
+ * Converts and saves every output image through the transport, with its
+ * provenance embedded unless embedMetadata is false, records each as an MCP
+ * resource and builds the tool result: the summary text, a link to each
+ * resource and, if requested, the images themselves. A single image keeps
+ * the short "saved to" summary; several get a per-variant breakdown. Also
+ * returns where each image was saved.
+ */
+async function deliverVariants(
+  transport: ToolTransport,
+  variants: ImageVariant[],
+  kind: OutputKind,
+  args: {
+    prompt: string;
+    includeImage: IncludeImage;
+    count: number;
+    aspectRatio?: AspectRatio;
+    imageSize?: ImageSize;
+    embedMetadata?: boolean;
+  } & OutputOptions &
+    Record<string, unknown>,
+  details: string,
+  source: ProvenanceSource,
+  progress: ToolProgress
+): Promise<{ result: CallToolResult; locations: string[] }> {
+  const options: OutputOptions = { ...args, format: args.format ?? transport.outputFormat?.(args) };
+  const imageCount = variants.filter((variant) => variant.image).length;
+  const content: CallToolResult["content"] = [];
+  const variantLines: string[] = [];
+  const locations: string[] = [];
+  const dimensions: string[] = [];
+
+  // Variants are numbered by the request they came from, so a failed one leaves a gap rather than shifting the rest
+  for (const [position, variant] of variants.entries()) {
+    const index = position + 1;
+    const variantNumber = variants.length > 1 ? index : undefined;
+    if (!variant.image) {
+      variantLines.push([`Variant ${index}: no image returned`, ...describeVariant(variant)].join("\n  "));
+      continue;
+    }
+    const which = variantNumber ? ` variant ${index}` : "";
+    await progress.report(`Post-processing${which}`);
+    const processed = await processOutput(variant.image, options);
+    const mimeType = processed.mimeType;
+    const image =
+      args.embedMetadata === false
+        ? processed.image
+        : embedProvenance(processed.image, {
+            ...source,
+            prompt: args.prompt,
+            aspectRatio: args.aspectRatio,
+            imageSize: args.imageSize,
+            variant: variantNumber,
+            createdAt: new Date().toISOString(),
+            serverVersion: SERVER_VERSION,
+          });
+    // report throws once the client has cancelled, so nothing is written after that
+    await progress.report(`Saving${which}`);
+    const location = await transport.saveImage(image, mimeType, kind, args, variantNumber);
+    const imageDimensions = describeDimensions(image);
+    locations.push(location);
+    dimensions.push(imageDimensions);
+    const record = transport.getOutputStore().add({
+      name: location.startsWith("data:")
+        ? `${kind}-${index}${extensionForMimeType(mimeType)}`
+        : location.split(/[\\/]/).pop() || location,
+      mimeType,
+      location,
+      description: `${kind} image: ${args.prompt}`,
+    });
+
+    variantLines.push(
+      [`Variant ${index}: ${describeLocation(location)}`, `Dimensions: ${imageDimensions}`, ...describeVariant(variant)].join(
+        "\n  "
+      )
+    );
+    content.push({
+      type: "resource_link",
+      uri: record.uri,
+      name: record.name,
+      mimeType: record.mimeType,
+      description: record.description,
+    });
+
+    if (args.includeImage === "full") {
+      content.push({ type: "image", data: image.toString("base64"), mimeType });
+    } else if (args.includeImage === "preview") {
+      const preview = await createPreview(image);
+      content.push({ type: "image", data: preview.base64, mimeType: preview.mimeType });
+    }
+  }
+
+  const title = OUTPUT_TITLES[kind];
+  let summary: string;
+  if (variants.length === 1) {
+    const [variant] = variants;
+    const modelText = variant.text.length > 0 ? `\nModel text: ${variant.text.join(" ")}` : "";
+    summary = `${title} saved to: ${describeLocation(locations[0])}\nDimensions: ${dimensions[0]}\n${details}${modelText}`;
+  } else {
+    summary = `${title}s: ${imageCount} saved (${args.count} requested)\n${details}\n\n${variantLines.join("\n")}`;
+  }
+
+  return { result: { content: [{ type: "text", text: summary }, ...content] }, locations };
+}
+
+// Fails before any Gemini request when one of count outputs could not be saved
+async function checkOutputs(transport: ToolTransport, args: Record<string, unknown>, count: number): Promise<void> {
+  for (let index = 1; index <= count; index++) {
+    await transport.checkOutput?.(args, count > 1 ? index : undefined);
+  }
+}
+
+function cacheLookup(
+  transport: ToolTransport,
+  tool: string,
+  bypass: boolean | undefined
+): Omit<CacheLookup, "variant"> | undefined {
+  const cache = transport.getResultCache?.();
+  return cache && { cache, tool, bypass: bypass ?? false };
+}
+
+const BUILTIN_STYLES = new StyleLibrary();
+
+// The prompt sent to the model: the caller's prompt wrapped in the requested styles
+function styledPrompt(transport: ToolTransport, prompt: string, args: StyleArgs): string {
+  if (args.style === undefined) {
+    return prompt;
+  }
+  const names = typeof args.style === "string" ? [args.style] : args.style;
+  return (transport.styles ?? BUILTIN_STYLES).apply(prompt, names, args.styleVariables);
+}
+
+function describeStyle(args: StyleArgs): string {
+  if (args.style === undefined) {
+    return "";
+  }
+  return `\nStyle: ${typeof args.style === "string" ? args.style : args.style.join(", ")}`;
+}
+
+function checkModel(transport: ToolTransport, model: GeminiModel): void {
+  const allowed = transport.getAllowedModels?.();
+  if (allowed && !allowed.includes(model)) {
+    throw new ToolError(`Model ${model} is not allowed for this token. Allowed models: ${allowed.join(", ")}`, "auth");
+  }
+}
+
+// Turns a failed tool call into an isError result carrying the error category
+async function catchToolErrors(result: Promise<CallToolResult>): Promise<CallToolResult> {
+  try {
+    return await result;
+  } catch (error) {
+    return toolErrorResult(error);
+  }
+}
+
+/**
+ * Runs a tool call that sends Gemini requests: rejects it once the spending
+ * cap is reached, records its token usage in the ledger (also when it fails)
+ * and appends the usage, estimated cost and any result cache hits or misses
+ * to the result summary.
+ */
+async function metered(
+  transport: ToolTransport,
+  tool: string,
+  handler: (usage: CallUsage) => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const ledger = transport.getUsageLedger();
+  ledger.checkCap();
+
+  const usage = new CallUsage();
+  let result: CallToolResult;
+  let cost = 0;
+  try {
+    result = await handler(usage);
+  } finally {
+    cost = ledger.record(tool, usage);
+  }
+
+  const [summary] = result.content;
+  if (usage.requests > 0 && summary?.type === "text") {
+    summary.text += `\nUsage: ${describeUsage(usage.total(), cost)}`;
+  }
+  const cache = describeCacheStats(usage.cache);
+  if (cache && summary?.type === "text") {
+    summary.text += `\nCache: ${cache}`;
+  }
+  return result;
+}
+
+// Lets connected clients know a new output resource is available
+async function withOutputsChanged(server: McpServer, result: Promise<CallToolResult>): Promise<CallToolResult> {
+  const value = await result;
+  server.sendResourceListChanged();
+  return value;
+}
+
+function textResult(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+  };
+}
+
+async function generateImage(
+  transport: ToolTransport,
+  args: GenerateImageArgs & Record<string, unknown>,
+  usage: CallUsage,
+  progress: ToolProgress
+) {
+  const { prompt, aspectRatio, imageSize, model, count, safetyThreshold, bypassCache } = args;
+  checkModel(transport, model);
+  await checkOutputs(transport, args, count);
+  const modelPrompt = styledPrompt(transport, prompt, args);
+
+  await progress.report("Waiting on the model");
+  const genai = transport.getGeminiClient();
+  const variants = await generateImageVariants(
+    transport.geminiCaller,
+    genai,
+    {
+      model,
+      contents: modelPrompt,
+      config: {
+        imageConfig: buildImageConfig(model, aspectRatio, imageSize),
+        safetySettings: buildSafetySettings(safetyThreshold),
+        abortSignal: progress.signal,
+      },
+    },
+    count,
+    usage,
+    cacheLookup(transport, "generate_image", bypassCache)
+  );
+
+  const { result } = await deliverVariants(
+    transport,
+    variants,
+    "generated",
+    { ...args, prompt: modelPrompt },
+    `Prompt: ${prompt}${describeStyle(args)}`,
+    { tool: "generate_image", model, inputs: [] },
+    progress
+  );
+  return result;
+}
+
+async function editImage(
+  transport: ToolTransport,
+  args: EditImageArgs & Record<string, unknown>,
+  usage: CallUsage,
+  progress: ToolProgress
+) {
+  const {
+    inputPath,
+    imageUrl,
+    maskPath,
+    maskUrl,
+    regions,
+    prompt,
+    aspectRatio,
+    imageSize,
+    model,
+    count,
+    safetyThreshold,
+    bypassCache,
+  } = args;
+  checkModel(transport, model);
+  await checkOutputs(transport, args, count);
+  const modelPrompt = styledPrompt(transport, prompt, args);
+
+  await progress.report("Fetching inputs");
+  const image = await loadImage(transport, inputPath, imageUrl);
+  if (!image) {
+    throw new ToolError(
+      transport.loadImageFromFile ? "Either inputPath or imageUrl must be provided" : "imageUrl must be provided",
+      "invalid_input"
+    );
+  }
+
+  // Restricted edits: the mask is shown to the model and enforced afterwards
+  const original = Buffer.from(image.base64, "base64");
+  let mask: Buffer | null = null;
+  let maskSource: string | null = null;
+  const inputs: ProvenanceInput[] = [provenanceInput("input", imageUrl ?? inputPath, image.base64)];
+  if (maskPath || maskUrl) {
+    const loaded = await loadImage(transport, maskPath, maskUrl);
+    if (loaded) {
+      mask = await normalizeMask(original, Buffer.from(loaded.base64, "base64"));
+      maskSource = maskUrl ?? maskPath ?? null;
+      inputs.push(provenanceInput("mask", maskSource ?? undefined, loaded.base64));
+    }
+  } else if (regions && regions.length > 0) {
+    mask = await renderRegionMask(original, regions);
+    maskSource = `${regions.length} region(s)`;
+    inputs.push(provenanceInput("mask", maskSource, mask.toString("base64")));
+  }
+  if (mask && aspectRatio) {
+    throw new ToolError(
+      "aspectRatio cannot be combined with a mask: masked edits keep the input image's dimensions",
+      "invalid_input"
+    );
+  }
+
+  const contents: ContentPart[] = [{ text: modelPrompt }, { inlineData: { mimeType: image.mimeType, data: image.base64 } }];
+  if (mask) {
+    contents[0] = {
+      text:
+        `${modelPrompt}\n\nThe second image is a mask for the first one. Only change the area that is white in the mask; ` +
+        "keep everything in the black area exactly as it is.",
+    };
+    contents.push({ inlineData: { mimeType: "image/png", data: mask.toString("base64") } });
+  }
+
+  await progress.report("Waiting on the model");
+  const genai = transport.getGeminiClient();
+  let variants = await generateImageVariants(
+    transport.geminiCaller,
+    genai,
+    {
+      model,
+      contents,
+      config: {
+        imageConfig: buildImageConfig(model, aspectRatio, imageSize),
+        safetySettings: buildSafetySettings(safetyThreshold),
+        abortSignal: progress.signal,
+      },
+    },
+    count,
+    usage,
+    cacheLookup(transport, "edit_image", bypassCache)
+  );
+
+  if (mask) {
+    const editMask = mask;
+    variants = await Promise.all(
+      variants.map(async (variant) =>
+        variant.image ? { ...variant, image: await applyMask(original, variant.image, editMask) } : variant
+      )
+    );
+  }
+
+  const inputSource = imageUrl ?? inputPath;
+  const maskLine = maskSource ? `\nMask: ${maskSource}` : "";
+  const { result } = await deliverVariants(
+    transport,
+    variants,
+    "edited",
+    { ...args, prompt: modelPrompt },
+    `Input: ${inputSource}${maskLine}\nEdit: ${prompt}${describeStyle(args)}`,
+    { tool: "edit_image", model, inputs },
+    progress
+  );
+  return result;
+}
+
+async function compositeImages(
+  transport: ToolTransport,
+  args: CompositeImagesArgs & Record<string, unknown>,
+  usage: CallUsage,
+  progress: ToolProgress
+) {
+  const { imagePaths = [], imageUrls = [], prompt, aspectRatio, imageSize, model, count, safetyThreshold, bypassCache } =
+    args;
+  checkModel(transport, model);
+  await checkOutputs(transport, args, count);
+
+  if (imagePaths.length === 0 && imageUrls.length === 0) {
+    throw new ToolError(
+      transport.loadImageFromFile
+        ? "Either imagePaths or imageUrls must be provided"
+        : "imageUrls must contain at least one URL",
+      "invalid_input"
+    );
+  }
+
+  const totalImages = imagePaths.length + imageUrls.length;
+  if (totalImages > 3) {
+    console.error("Warning: More than 3 images provided. Model works best with up to 3 images.");
+  }
+
+  // Add the text prompt first, then every image in order
+  const modelPrompt = styledPrompt(transport, prompt, args);
+  const parts: ContentPart[] = [{ text: modelPrompt }];
+  const inputs: ProvenanceInput[] = [];
+
+  await progress.report("Fetching inputs");
+  for (const imagePath of imagePaths) {
+    const image = await loadImage(transport, imagePath, undefined);
+    if (!image) {
+      throw new ToolError("Local image paths are not supported by this server", "invalid_input");
+    }
+    parts.push({ inlineData: { mimeType: image.mimeType, data: image.base64 } });
+    inputs.push(provenanceInput("input", imagePath, image.base64));
+  }
+
+  for (const imageUrl of imageUrls) {
+    const { base64, mimeType } = await loadImageFromUrl(imageUrl, transport.urlPolicy);
+    parts.push({ inlineData: { mimeType, data: base64 } });
+    inputs.push(provenanceInput("input", imageUrl, base64));
+  }
+
+  await progress.report("Waiting on the model");
+  const genai = transport.getGeminiClient();
+  const variants = await generateImageVariants(
+    transport.geminiCaller,
+    genai,
+    {
+      model,
+      contents: parts,
+      config: {
+        imageConfig: buildImageConfig(model, aspectRatio, imageSize),
+        safetySettings: buildSafetySettings(safetyThreshold),
+        abortSignal: progress.signal,
+      },
+    },
+    count,
+    usage,
+    cacheLookup(transport, "composite_images", bypassCache)
+  );
+
+  const allInputs = [...imagePaths, ...imageUrls];
+  const { result } = await deliverVariants(
+    transport,
+    variants,
+    "composite",
+    { ...args, prompt: modelPrompt },
+    `Input images: ${allInputs.join(", ")}\nComposition: ${prompt}${describeStyle(args)}`,
+    { tool: "composite_images", model, inputs },
+    progress
+  );
+  return result;
+}
+
+async function analyzeImage(
+  transport: ToolTransport,
+  args: AnalyzeImageArgs,
+  usage: CallUsage,
+  progress: ToolProgress
+) {
+  const { imagePath, imageUrl, preset, schema, model, safetyThreshold } = args;
+  checkModel(transport, model);
+
+  if (preset && schema) {
+    throw new ToolError("Pass either preset or schema, not both", "invalid_input");
+  }
+  const prompt = args.prompt ?? (preset ? presetPrompt(preset) : undefined);
+  if (!prompt) {
+    throw new ToolError("prompt is required unless a preset is given", "invalid_input");
+  }
+  const responseSchema = preset ? presetJsonSchema(preset) : schema;
+  const parseAnswer = responseSchema ? structuredAnswerParser(responseSchema) : undefined;
+
+  await progress.report("Fetching inputs");
+  const image = await loadImage(transport, imagePath, imageUrl);
+  if (!image) {
+    throw new ToolError(
+      transport.loadImageFromFile ? "Either imagePath or imageUrl must be provided" : "imageUrl must be provided",
+      "invalid_input"
+    );
+  }
+
+  await progress.report("Waiting on the model");
+  const genai = transport.getGeminiClient();
+  const result = await transport.geminiCaller.generateContent(
+    genai,
+    {
+      model,
+      contents: [
+        { text: prompt },
+        { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+      ],
+      config: {
+        responseModalities: ["Text"],
+        safetySettings: buildSafetySettings(safetyThreshold),
+        abortSignal: progress.signal,
+        ...(responseSchema ? { responseMimeType: "application/json", responseJsonSchema: responseSchema } : {}),
+      },
+    },
+    usage
+  );
+
+  const text = extractText(result);
+  if (!parseAnswer) {
+    return textResult(text);
+  }
+
+  // structuredContent must be an object, so other JSON values are wrapped
+  const answer = parseAnswer(text);
+  const structured =
+    answer !== null && typeof answer === "object" && !Array.isArray(answer)
+      ? (answer as Record<string, unknown>)
+      : { result: answer };
+  return {
+    content: [
+      { type: "text", text: `Structured answer (${preset ? `preset ${preset}` : "custom schema"}):` },
+      { type: "text", text: JSON.stringify(structured, null, 2) },
+    ],
+    structuredContent: structured,
+  } satisfies CallToolResult;
+}
+
+function describeComparison(comparison: ImageComparison): string[] {
+  const { before, after, regions } = comparison;
+  const lines = [
+    `Before: ${before.width}x${before.height}`,
+    `After: ${after.width}x${after.height}${comparison.resized ? ` (stretched to ${before.width}x${before.height} to compare)` : ""}`,
+    `SSIM: ${comparison.ssim.toFixed(4)}`,
+    `PSNR: ${comparison.psnr === null ? "identical images" : `${comparison.psnr.toFixed(2)} dB`}`,
+    `Changed pixels: ${(comparison.changedFraction * 100).toFixed(2)}% (difference above ${comparison.threshold} of 255)`,
+  ];
+  if (regions.length === 0) {
+    lines.push("Changed regions: none");
+  } else {
+    lines.push("Changed regions (x, y, width x height in before-image pixels; usable as edit_image regions):");
+    lines.push(...regions.map((region) => `  ${region.x}, ${region.y}, ${region.width}x${region.height} (${region.changedPixels} changed pixels)`));
+  }
+  return lines;
+}
+
+function describeVerdict(verdict: Verdict): string[] {
+  return [
+    `Verdict: ${verdict.verdict}`,
+    `Requested change present: ${verdict.requestedChangePresent ? "yes" : "no"}`,
+    `Unrelated changes: ${verdict.unrelatedChanges.length > 0 ? verdict.unrelatedChanges.join("; ") : "none"}`,
+    `Explanation: ${verdict.explanation}`,
+  ];
+}
+
+/**
+ * Compares an edit's result with its input: pixel metrics and changed
+ * regions always, a diff image on request, and with expectedChange a
+ * Gemini verdict on whether the edit did what was asked and nothing else.
+ */
+async function compareImages(
+  transport: ToolTransport,
+  args: CompareImagesArgs,
+  usage: CallUsage,
+  progress: ToolProgress
+): Promise<CallToolResult> {
+  const { expectedChange, model, safetyThreshold } = args;
+  if (expectedChange) {
+    checkModel(transport, model);
+  }
+  if (args.saveDiff && transport.loadImageFromFile && !args.diffPath) {
+    throw new ToolError("diffPath is required to save the diff image", "invalid_input");
+  }
+  if (args.saveDiff) {
+    await checkOutputs(transport, { outputPath: args.diffPath }, 1);
+  }
+
+  await progress.report("Fetching inputs");
+  const before = await loadImage(transport, args.beforePath, args.beforeUrl);
+  const after = await loadImage(transport, args.afterPath, args.afterUrl);
+  if (!before || !after) {
+    throw new ToolError(
+      transport.loadImageFromFile
+        ? "Both images must be provided: beforePath or beforeUrl, and afterPath or afterUrl"
+        : "beforeUrl and afterUrl must be provided",
+      "invalid_input"
+    );
+  }
+
+  await progress.report("Comparing pixels");
+  const beforeImage = Buffer.from(before.base64, "base64");
+  const { comparison, mask } = await diffImages(beforeImage, Buffer.from(after.base64, "base64"), args.threshold);
+  const lines = describeComparison(comparison);
+
+  let verdict: Verdict | undefined;
+  if (expectedChange) {
+    const parseVerdict = structuredAnswerParser(verdictJsonSchema());
+    await progress.report("Waiting on the model");
+    const genai = transport.getGeminiClient();
+    const result = await transport.geminiCaller.generateContent(
+      genai,
+      {
+        model,
+        contents: [
+          { text: verificationPrompt(expectedChange, comparison) },
+          { inlineData: { mimeType: before.mimeType, data: before.base64 } },
+          { inlineData: { mimeType: after.mimeType, data: after.base64 } },
+        ],
+        config: {
+          responseModalities: ["Text"],
+          safetySettings: buildSafetySettings(safetyThreshold),
+          abortSignal: progress.signal,
+          responseMimeType: "application/json",
+          responseJsonSchema: verdictJsonSchema(),
+        },
+      },
+      usage
+    );
+    verdict = parseVerdict(extractText(result)) as Verdict;
+    lines.push(...describeVerdict(verdict));
+  }
+
+  const content: CallToolResult["content"] = [];
+  let diffLocation: string | undefined;
+  if (args.saveDiff || args.includeDiff !== "none") {
+    await progress.report("Rendering the diff image");
+    const diff = await renderDiffImage(beforeImage, comparison, mask);
+    if (args.saveDiff) {
+      diffLocation = await transport.saveImage(diff, "image/png", "diff", { outputPath: args.diffPath });
+      const record = transport.getOutputStore().add({
+        name: diffLocation.startsWith("data:") ? "diff.png" : diffLocation.split(/[\\/]/).pop() || diffLocation,
+        mimeType: "image/png",
+        location: diffLocation,
+        description: `diff image: ${args.beforePath ?? "before"} vs ${args.afterPath ?? "after"}`,
+      });
+      lines.push(`Diff image saved to: ${describeLocation(diffLocation)}`);
+      content.push({
+        type: "resource_link",
+        uri: record.uri,
+        name: record.name,
+        mimeType: record.mimeType,
+        description: record.description,
+      });
+    }
+    if (args.includeDiff === "full") {
+      content.push({ type: "image", data: diff.toString("base64"), mimeType: "image/png" });
+    } else if (args.includeDiff === "preview") {
+      const preview = await createPreview(diff);
+      content.push({ type: "image", data: preview.base64, mimeType: preview.mimeType });
+    }
+  }
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }, ...content],
+    structuredContent: {
+      ...comparison,
+      ...(verdict ? { verification: verdict } : {}),
+      ...(diffLocation ? { diff: diffLocation } : {}),
+    },
+  };
+}
+
+async function loadSession(transport: ToolTransport, sessionId: string): Promise<EditSession> {
+  const session = await transport.getSessionStore().get(sessionId);
+  if (!session) {
+    throw new ToolError(`Unknown edit session: ${sessionId}. Start one with start_edit_session.`, "invalid_input");
+  }
+  return session;
+}
+
+/**
+ * Runs one turn of an edit session: replays the conversation that led to
+ * the parent step, asks for the new edit, and records the model's reply as a
+ * new step that becomes the session head.
+ */
+async function runSessionStep(
+  transport: ToolTransport,
+  session: EditSession,
+  parentIndex: number,
+  args: {
+    prompt: string;
+    aspectRatio?: AspectRatio;
+    imageSize?: ImageSize;
+    includeImage: IncludeImage;
+    safetyThreshold?: SafetyThreshold;
+  } & OutputOptions &
+    Record<string, unknown>,
+  usage: CallUsage,
+  progress: ToolProgress
+): Promise<CallToolResult> {
+  const { prompt, aspectRatio, imageSize, safetyThreshold } = args;
+  const parent = getStep(session, parentIndex);
+  const model = session.model as GeminiModel;
+  checkModel(transport, model);
+  await checkOutputs(transport, args, 1);
+
+  // Branches from the input image have no model turn to refer to, so resend it
+  const userParts: Part[] = [{ text: prompt }];
+  if (parent.index === 0) {
+    userParts.push({ inlineData: { mimeType: session.input.mimeType, data: session.input.base64 } });
+  }
+
+  await progress.report("Waiting on the model");
+  const genai = transport.getGeminiClient();
+  const response = await transport.geminiCaller.generateContent(
+    genai,
+    {
+      model,
+      contents: [...historyFor(session, parent.index), { role: "user", parts: userParts }],
+      config: {
+        imageConfig: buildImageConfig(model, aspectRatio, imageSize),
+        safetySettings: buildSafetySettings(safetyThreshold),
+        abortSignal: progress.signal,
+      },
+    },
+    usage
+  );
+
+  const variant = extractVariants(response)[0];
+  if (!variant.image) {
+    throw noOutputError([variant]);
+  }
+
+  const index = session.steps.length;
+  const { result, locations } = await deliverVariants(
+    transport,
+    [variant],
+    "edited",
+    { ...args, count: 1 },
+    `Session: ${session.id}\nStep: ${index} (from step ${parent.index})\nEdit: ${prompt}`,
+    {
+      tool: index === 1 ? "start_edit_session" : "continue_edit_session",
+      model,
+      inputs: [provenanceInput("session", undefined, session.input.base64)],
+      session: { id: session.id, step: index, parent: parent.index },
+    },
+    progress
+  );
+
+  session.steps.push({
+    index,
+    parent: parent.index,
+    prompt,
+    userParts,
+    modelParts: response.candidates?.[0]?.content?.parts ?? [],
+    location: locations[0],
+    createdAt: new Date().toISOString(),
+  });
+  session.head = index;
+  await transport.getSessionStore().save(session);
+
+  return result;
+}
+
+async function startEditSession(
+  transport: ToolTransport,
+  args: StartEditSessionArgs & Record<string, unknown>,
+  usage: CallUsage,
+  progress: ToolProgress
+) {
+  const { inputPath, imageUrl, model } = args;
+
+  await progress.report("Fetching inputs");
+  const image = await loadImage(transport, inputPath, imageUrl);
+  if (!image) {
+    throw new ToolError(
+      transport.loadImageFromFile ? "Either inputPath or imageUrl must be provided" : "imageUrl must be provided",
+      "invalid_input"
+    );
+  }
+
+  const session = createSession(model, image);
+  return runSessionStep(transport, session, 0, args, usage, progress);
+}
+
+async function continueEditSession(
+  transport: ToolTransport,
+  args: ContinueEditSessionArgs & Record<string, unknown>,
+  usage: CallUsage,
+  progress: ToolProgress
+) {
+  return withSessionLock(args.sessionId, async () => {
+    const session = await loadSession(transport, args.sessionId);
+    return runSessionStep(transport, session, args.fromStep ?? session.head, args, usage, progress);
+  });
+}
+
+async function listSessionHistory(transport: ToolTransport, args: SessionIdArgs) {
+  const session = await loadSession(transport, args.sessionId);
+
+  const lines = session.steps.map((step) => {
+    const head = step.index === session.head ? " [head]" : "";
+    if (step.index === 0) {
+      return `Step 0: input image${head}`;
+    }
+    const location = step.location ? `\n  Saved to: ${describeLocation(step.location)}` : "";
+    return `Step ${step.index} (from step ${step.parent}): ${step.prompt}${head}${location}`;
+  });
+
+  return textResult(
+    `Session: ${session.id}\nModel: ${session.model}\nStarted: ${session.createdAt}\n\n${lines.join("\n")}`
+  );
+}
+
+async function revertSession(transport: ToolTransport, args: RevertSessionArgs) {
+  const { session, step } = await withSessionLock(args.sessionId, async () => {
+    const session = await loadSession(transport, args.sessionId);
+    const step = getStep(session, args.step);
+    session.head = step.index;
+    await transport.getSessionStore().save(session);
+    return { session, step };
+  });
+
+  const image = stepImage(session, step.index);
+  const preview = await createPreview(Buffer.from(image.base64, "base64"));
+  const location = step.location ? ` (${describeLocation(step.location)})` : "";
+  const result: CallToolResult = {
+    content: [
+      {
+        type: "text",
+        text: `Session ${session.id} reverted to step ${step.index}${location}. The next continue_edit_session call builds on this step.`,
+      },
+      { type: "image", data: preview.base64, mimeType: preview.mimeType },
+    ],
+  };
+  return result;
+}
+
+// Outcome of one batch job
+export interface BatchJobResult {
+  job: BatchJob;
+  status: "succeeded" | "skipped" | "failed";
+  /** The first line of the tool summary, or the error message */
+  message: string;
+  /** Token usage and estimated cost, when the job sent Gemini requests */
+  usage?: string;
+  /** Result cache hits and misses, when the transport has a cache */
+  cache?: string;
+  category?: ErrorCategory;
+}
+
+// The tool call a job stands for: generate without inputs, edit one, composite several
+function runBatchJob(
+  transport: ToolTransport,
+  job: BatchJob,
+  force: boolean,
+  usage: CallUsage,
+  progress: ToolProgress
+): Promise<CallToolResult> {
+  const { inputs, outputPath, ...options } = job;
+  const args = {
+    ...options,
+    outputPath,
+    // Regenerating on purpose must not trip over the previous output
+    ...(force ? { overwrite: "replace" } : {}),
+    count: job.count ?? 1,
+    includeImage: "none" as const,
+    model: job.model ?? transport.defaultModel ?? DEFAULT_MODEL,
+    embedMetadata: job.embedMetadata ?? true,
+  };
+
+  if (inputs.length === 0) {
+    return generateImage(transport, { ...args, aspectRatio: job.aspectRatio ?? "1:1" }, usage, progress);
+  }
+  if (inputs.length === 1) {
+    const [input] = inputs;
+    return editImage(
+      transport,
+      isRemoteInput(input) ? { ...args, imageUrl: input } : { ...args, inputPath: input },
+      usage,
+      progress
+    );
+  }
+  return compositeImages(
+    transport,
+    {
+      ...args,
+      aspectRatio: job.aspectRatio ?? "1:1",
+      imagePaths: inputs.filter((input) => !isRemoteInput(input)),
+      imageUrls: inputs.filter(isRemoteInput),
+    },
+    usage,
+    progress
+  );
+}
+
+/**
+ * Runs batch jobs with at most concurrency of them in flight (each still goes
+ * through the transport's Gemini call policy). Jobs whose output already
+ * exists are skipped unless force is set; a failed job does not stop the
+ * others. Results are in job order. Progress is reported per finished job;
+ * once the client cancels, running jobs are aborted and the rest not started.
+ */
+export async function runBatch(
+  transport: ToolTransport,
+  jobs: BatchJob[],
+  options: { force: boolean; concurrency: number; progress?: ToolProgress }
+): Promise<BatchJobResult[]> {
+  const progress = options.progress ?? new ToolProgress();
+  const results: BatchJobResult[] = new Array(jobs.length);
+  let next = 0;
+  let done = 0;
+
+  const runJob = async (job: BatchJob): Promise<BatchJobResult> => {
+    if (progress.signal?.aborted) {
+      return { job, status: "failed", message: "The client cancelled the request", category: "cancelled" };
+    }
+    const variant = (job.count ?? 1) > 1 ? 1 : undefined;
+    if (!options.force && (await transport.outputExists?.({ outputPath: job.outputPath }, variant))) {
+      return { job, status: "skipped", message: `Output exists: ${job.outputPath}` };
+    }
+    try {
+      const result = await metered(transport, "batch_generate", (usage) =>
+        runBatchJob(transport, job, options.force, usage, progress.quiet())
+      );
+      const [summary] = result.content;
+      const lines = summary?.type === "text" ? summary.text.split("\n") : [];
+      return {
+        job,
+        status: "succeeded",
+        message: lines[0] ?? "Done",
+        usage: lines.find((line) => line.startsWith("Usage: "))?.slice("Usage: ".length),
+        cache: lines.find((line) => line.startsWith("Cache: "))?.slice("Cache: ".length),
+      };
+    } catch (error) {
+      const toolError = classifyError(error);
+      return { job, status: "failed", message: toolError.message, category: toolError.category };
+    }
+  };
+
+  const runNext = async (): Promise<void> => {
+    while (next < jobs.length) {
+      const index = next++;
+      results[index] = await runJob(jobs[index]);
+      done += 1;
+      if (!progress.signal?.aborted) {
+        await progress.report(`${done}/${jobs.length} jobs done`, done, jobs.length);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, jobs.length) }, runNext));
+  return results;
+}
+
+// Per-job report of a batch run, shared by batch_generate and the CLI
+export function describeBatch(results: BatchJobResult[]): string {
+  const count = (status: BatchJobResult["status"]) => results.filter((result) => result.status === status).length;
+  const lines = results.map((result) => {
+    const category = result.category ? ` (${result.category})` : "";
+    const usage = result.usage ? `\n  Usage: ${result.usage}` : "";
+    const cache = result.cache ? `\n  Cache: ${result.cache}` : "";
+    return `[${result.status}] ${result.job.id}: ${result.message}${category}${usage}${cache}`;
+  });
+  return [
+    `Batch: ${count("succeeded")} succeeded, ${count("skipped")} skipped, ${count("failed")} failed (${results.length} jobs)`,
+    "",
+    ...lines,
+  ].join("\n");
+}
+
+async function batchGenerate(transport: ToolTransport, args: BatchGenerateArgs, progress: ToolProgress) {
+  let manifest: BatchManifest;
+  let baseDir: string;
+  if (args.manifestPath) {
+    const manifestPath = transport.resolveInputPath
+      ? await transport.resolveInputPath(args.manifestPath)
+      : path.resolve(args.manifestPath);
+    manifest = loadManifest(manifestPath);
+    baseDir = path.dirname(manifestPath);
+  } else if (args.manifest) {
+    manifest = parseManifest(args.manifest, "(inline)");
+    baseDir = process.cwd();
+  } else {
+    throw new ToolError("Either manifestPath or manifest must be provided", "invalid_input");
+  }
+
+  const jobs = expandJobs(manifest, baseDir);
+  const results = await runBatch(transport, jobs, {
+    force: args.force,
+    concurrency: args.concurrency ?? manifest.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    progress,
+  });
+
+  // Only an error when nothing was produced or skipped, so partial runs keep their report
+  const result = textResult(describeBatch(results));
+  if (results.every((result) => result.status === "failed")) {
+    result.isError = true;
+  }
+  return result;
+}
+
+function describeProvenance(provenance: Provenance): string[] {
+  const prompt = provenance.promptTruncated ? `${provenance.prompt} [truncated]` : provenance.prompt;
+  const lines = [`Tool: ${provenance.tool}`, `Prompt: ${prompt}`, `Model: ${provenance.model}`];
+  if (provenance.aspectRatio) {
+    lines.push(`Aspect ratio: ${provenance.aspectRatio}`);
+  }
+  if (provenance.imageSize) {
+    lines.push(`Image size: ${provenance.imageSize}`);
+  }
+  if (provenance.variant !== undefined) {
+    lines.push(`Variant: ${provenance.variant}`);
+  }
+  if (provenance.session) {
+    const { id, step, parent } = provenance.session;
+    lines.push(`Session: ${id}, step ${step} (from step ${parent})`);
+  }
+  for (const input of provenance.inputs) {
+    lines.push(`Input (${input.role}): ${input.source ?? "unknown"} sha256:${input.sha256}`);
+  }
+  lines.push(`Created: ${provenance.createdAt}`, `Server version: ${provenance.serverVersion}`);
+  return lines;
+}
+
+async function readImageMetadata(transport: ToolTransport, args: ReadImageMetadataArgs) {
+  const image = await loadImage(transport, args.imagePath, args.imageUrl);
+  if (!image) {
+    throw new ToolError(
+      transport.loadImageFromFile ? "Either imagePath or imageUrl must be provided" : "imageUrl must be provided",
+      "invalid_input"
+    );
+  }
+
+  const data = Buffer.from(image.base64, "base64");
+  const info = readImageInfo(data);
+  const header = [
+    `Image: ${args.imageUrl?.startsWith("data:") ? "data URL" : (args.imageUrl ?? args.imagePath)}`,
+    `Format: ${info?.mimeType ?? image.mimeType}`,
+    `Dimensions: ${describeDimensions(data)}`,
+  ];
+
+  const provenance = readProvenance(data);
+  if (!provenance) {
+    const other = hasXmp(data) ? " The image has XMP metadata from another tool." : "";
+    return textResult(`${header.join("\n")}\n\nNo nanobanana provenance found.${other}`);
+  }
+  return textResult(
+    `${header.join("\n")}\n\n${describeProvenance(provenance).join("\n")}\n\nProvenance JSON:\n${JSON.stringify(provenance, null, 2)}`
+  );
+}
+
+// The finished state of a job, from the tool result its call returned
+function finishJob(transport: ToolTransport, job: ImageJob, result: CallToolResult): ImageJob {
+  const [summary] = result.content;
+  const finished = {
+    ...job,
+    summary: summary?.type === "text" ? summary.text : undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  if (result.isError) {
+    const { message, category, retryable } = (result.structuredContent as { error: ImageJob["error"] & object }).error;
+    return { ...finished, status: "failed", error: { message, category, retryable } };
+  }
+  const outputStore = transport.getOutputStore();
+  const outputs = result.content.flatMap((item) => {
+    const record = item.type === "resource_link" ? outputStore.get(item.uri.slice(OUTPUT_URI_PREFIX.length)) : undefined;
+    return record ? [{ uri: record.uri, location: record.location, mimeType: record.mimeType }] : [];
+  });
+  return { ...finished, status: "succeeded", outputs };
+}
+
+// Runs a job's call and records its progress; failures of the call itself end up in the job
+async function runJob(
+  transport: ToolTransport,
+  store: JobStore,
+  job: ImageJob,
+  call: () => Promise<CallToolResult>
+): Promise<void> {
+  try {
+    await store.save({ ...job, status: "running", updatedAt: new Date().toISOString() });
+    const result = await call();
+    await store.save(finishJob(transport, job, result));
+  } catch (error) {
+    console.error(`Could not record background job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Queues an image tool call as a background job and answers with its id.
+ * The call runs detached from the request: it sends no progress and is not
+ * cancelled with it.
+ */
+async function submitJob(
+  transport: ToolTransport,
+  store: JobStore,
+  tool: string,
+  prompt: string,
+  call: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const job = createJob(tool, prompt);
+  await store.save(job);
+  const work = runJob(transport, store, job, call);
+  transport.waitUntil?.(work);
+  return {
+    ...textResult(
+      `Job ${job.id} queued: ${tool}\nPrompt: ${prompt}\nCheck on it with get_job_status; once it has succeeded the result lists the output URLs.`
+    ),
+    structuredContent: { jobId: job.id, status: job.status },
+  };
+}
+
+/**
+ * Runs generate_image, edit_image or composite_images: within the request,
+ * or as a background job when the call asks for async.
+ */
+function runImageTool(
+  server: McpServer,
+  transport: ToolTransport,
+  tool: string,
+  args: Record<string, unknown>,
+  extra: ToolExtra,
+  handler: (usage: CallUsage, progress: ToolProgress) => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const call = (progress: ToolProgress) =>
+    catchToolErrors(withOutputsChanged(server, metered(transport, tool, (usage) => handler(usage, progress))));
+  if (!args.async || !transport.getJobStore) {
+    return call(new ToolProgress(extra));
+  }
+  const store = transport.getJobStore();
+  return catchToolErrors(submitJob(transport, store, tool, args.prompt as string, () => call(new ToolProgress())));
+}
+
+function describeJob(job: ImageJob): string[] {
+  const lines = [
+    `Job ${job.id}: ${job.status}`,
+    `Tool: ${job.tool}`,
+    `Prompt: ${job.prompt}`,
+    `Created: ${job.createdAt}, updated: ${job.updatedAt}`,
+  ];
+  if (job.outputs.length > 0) {
+    lines.push(...job.outputs.map((output) => `Output: ${describeLocation(output.location)}`));
+  }
+  if (job.error) {
+    lines.push(`Error: ${job.error.message}`, `Category: ${job.error.category}`, `Retryable: ${job.error.retryable ? "yes" : "no"}`);
+  }
+  if (job.summary) {
+    lines.push("", job.summary);
+  }
+  return lines;
+}
+
+async function getJobStatus(transport: ToolTransport, store: JobStore, args: JobStatusArgs): Promise<CallToolResult> {
+  const job = await store.get(args.jobId);
+  if (!job) {
+    throw new ToolError(`Unknown job: ${args.jobId}. Jobs are listed by list_jobs.`, "invalid_input");
+  }
+  // Output resources are only known to the instance that ran the job; the
+  // stored URLs work everywhere
+  const outputStore = transport.getOutputStore();
+  const links = job.outputs.flatMap((output) => {
+    const record = outputStore.get(output.uri.slice(OUTPUT_URI_PREFIX.length));
+    return record
+      ? [{ type: "resource_link" as const, uri: record.uri, name: record.name, mimeType: record.mimeType, description: record.description }]
+      : [];
+  });
+  return {
+    content: [{ type: "text", text: describeJob(job).join("\n") }, ...links],
+    structuredContent: { job: { ...job } },
+  };
+}
+
+async function listJobs(store: JobStore, args: ListJobsArgs): Promise<CallToolResult> {
+  const jobs = await store.list(args.limit, args.status);
+  if (jobs.length === 0) {
+    return textResult(args.status ? `No ${args.status} jobs.` : "No jobs yet.");
+  }
+  const lines = jobs.map((job) => `- ${job.id} ${job.status} ${job.tool} (${job.createdAt}): ${job.prompt}`);
+  return {
+    ...textResult([`${jobs.length} job(s), newest first:`, ...lines].join("\n")),
+    structuredContent: {
+      jobs: jobs.map(({ id, tool, status, prompt, createdAt, updatedAt }) => ({ id, tool, status, prompt, createdAt, updatedAt })),
+    },
+  };
+}
+
+function describeSummary(summary: UsageSummary): string {
+  return `${summary.calls} call(s), ${describeUsage(summary.usage, summary.cost)}`;
+}
+
+async function getUsageReport(transport: ToolTransport, args: UsageReportArgs) {
+  const ledger = transport.getUsageLedger();
+  const since =
+    args.sinceMinutes !== undefined ? new Date(Date.now() - args.sinceMinutes * 60_000) : ledger.startedAt;
+  const report = ledger.report(since);
+
+  const group = (title: string, summaries: Record<string, UsageSummary>) => {
+    const names = Object.keys(summaries).sort();
+    return names.length === 0
+      ? []
+      : [`\n${title}:`, ...names.map((name) => `  ${name}: ${describeSummary(summaries[name])}`)];
+  };
+  const cap =
+    report.spendingCapUsd !== undefined
+      ? `${formatCost(report.totalCostSinceStart)} of ${formatCost(report.spendingCapUsd)} spending cap used`
+      : `${formatCost(report.totalCostSinceStart)} spent, no spending cap`;
+
+  return textResult(
+    [
+      `Usage since ${report.since.toISOString()}`,
+      `Total: ${describeSummary(report.total)}`,
+      ...group("By tool", report.byTool),
+      ...group("By model", report.byModel),
+      `\nSince server start: ${cap}`,
+      "Costs are estimates based on the configured price table.",
+    ].join("\n")
+  );
+}
+
+// Every style as an MCP prompt taking the subject and the style's variables,
+// so clients can offer the catalog and agents learn the style argument
+function registerStylePrompts(server: McpServer, styles: StyleLibrary): void {
+  for (const style of styles.list()) {
+    const variables = Object.entries(style.variables ?? {});
+    const argsSchema: Record<string, z.ZodType<string | undefined>> = {
+      subject: z.string().describe("What the image shows, e.g. 'a ceramic coffee mug'"),
+    };
+    for (const [name, variable] of variables) {
+      const schema = z.string().describe(variable.description);
+      argsSchema[name] = variable.default === undefined ? schema : schema.optional();
+    }
+
+    server.registerPrompt(
+      style.name,
+      { title: style.name, description: `${style.description} (${style.category})`, argsSchema },
+      (args) => {
+        const values = Object.fromEntries(
+          variables.flatMap(([name]) => (args[name] !== undefined ? [[name, args[name] as string]] : []))
+        );
+        const call = { prompt: args.subject, style: style.name, ...(variables.length > 0 ? { styleVariables: values } : {}) };
+        const text =
+          `Create this image with generate_image (or edit_image / composite_images to restyle existing images), passing these arguments:\n` +
+          `${JSON.stringify(call, null, 2)}\n\n` +
+          `The style turns the prompt into:\n${styles.apply(args.subject ?? "", [style.name], values)}`;
+        return {
+          description: style.description,
+          messages: [{ role: "user", content: { type: "text", text } }],
+        };
+      }
+    );
+  }
+}
+
+/**
+ * Registers the image tools on an MCP server. Both the stdio entry point and
+ * the /mcp route call this, so tool schemas and behavior stay identical.
+ */
+export function registerTools(server: McpServer, transport: ToolTransport): void {
+  const acceptsFiles = transport.loadImageFromFile !== undefined;
+  const output = transport.outputDescription;
+  const defaultModel = transport.defaultModel ?? DEFAULT_MODEL;
+  const modelSchema = createModelSchema(defaultModel);
+  const styles = transport.styles ?? BUILTIN_STYLES;
+  const styleShape = createStyleShape(styles);
+  const asyncShape = transport.getJobStore ? createAsyncShape(transport.asyncByDefault ?? false) : {};
+
+  server.tool(
+    "generate_image",
+    `Generate a new image from a text prompt using Google's Gemini image model (nanobanana). Perfect for creating photorealistic scenes, illustrations, logos, product mockups, and more. ${output}`,
+    {
+      prompt: z
+        .string()
+        .describe(
+          "Detailed text description of the image to generate. Be specific about style, composition, lighting, colors, and mood."
+        ),
+      ...transport.outputShape,
+      ...outputOptionsShape,
+      aspectRatio: z
+        .enum(ASPECT_RATIOS)
+        .default("1:1")
+        .describe("Aspect ratio for the generated image (default: 1:1)"),
+      imageSize: imageSizeSchema,
+      count: countSchema,
+      includeImage: includeImageSchema,
+      model: modelSchema,
+      safetyThreshold: safetyThresholdSchema,
+      ...styleShape,
+      ...(transport.getResultCache ? cacheShape : {}),
+      ...asyncShape,
+    },
+    async (args, extra) =>
+      runImageTool(server, transport, "generate_image", args, extra, (usage, progress) =>
+        generateImage(transport, args as GenerateImageArgs & Record<string, unknown>, usage, progress)
+      )
+  );
+
+  server.tool(
+    "edit_image",
+    `Edit an existing image using text prompts with Google's Gemini image model. Add, remove, or modify elements while preserving the original style and composition. ${output}`,
+    {
+      ...(acceptsFiles
+        ? {
+            inputPath: z
+              .string()
+              .optional()
+              .describe("Path to the input image file (required if imageUrl is not provided)"),
+          }
+        : {}),
+      imageUrl: z
+        .string()
+        .optional()
+        .describe(
+          acceptsFiles
+            ? "URL of the input image (data URL or real URL). Required if inputPath is not provided."
+            : "URL of the input image (data URL or real URL)."
+        ),
+      ...(acceptsFiles
+        ? {
+            maskPath: z
+              .string()
+              .optional()
+              .describe("Path to a mask image. White areas may be edited; everything else is kept from the input."),
+          }
+        : {}),
+      maskUrl: z
+        .string()
+        .optional()
+        .describe("URL of a mask image (data URL or real URL). White areas may be edited; everything else is kept from the input."),
+      regions: z
+        .array(regionSchema)
+        .optional()
+        .describe(
+          "Rectangles and polygons, in input image pixels, that may be edited. Used when no mask image is given; everything outside them is kept from the input."
+        ),
+      prompt: z
+        .string()
+        .describe(
+          "Detailed description of what to change, add, or remove from the image. Be specific about preserving unchanged elements."
+        ),
+      ...transport.outputShape,
+      ...outputOptionsShape,
+      aspectRatio: z
+        .enum(ASPECT_RATIOS)
+        .optional()
+        .describe("Aspect ratio for the output image (default: matches input)"),
+      imageSize: imageSizeSchema,
+      count: countSchema,
+      includeImage: includeImageSchema,
+      model: modelSchema,
+      safetyThreshold: safetyThresholdSchema,
+      ...styleShape,
+      ...(transport.getResultCache ? cacheShape : {}),
+      ...asyncShape,
+    },
+    async (args, extra) =>
+      runImageTool(server, transport, "edit_image", args, extra, (usage, progress) =>
+        editImage(transport, args as EditImageArgs & Record<string, unknown>, usage, progress)
+      )
+  );
+
+  server.tool(
+    "composite_images",
+    `Combine multiple images into a single composition using text prompts with Google's Gemini image model. Perfect for product mockups, style transfer, and creative collages. ${output}`,
+    {
+      ...(acceptsFiles
+        ? {
+            imagePaths: z
+              .array(z.string())
+              .optional()
+              .describe(
+                "Array of paths to input images (up to 3 images recommended). Required if imageUrls is not provided."
+              ),
+          }
+        : {}),
+      imageUrls: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Array of image URLs (data URLs or real URLs) to use as input (up to 3 images recommended)." +
+            (acceptsFiles ? " Required if imagePaths is not provided." : "")
+        ),
+      prompt: z
+        .string()
+        .describe(
+          "Detailed description of how to combine the images. Reference images by their order (first, second, third)."
+        ),
+      ...transport.outputShape,
+      ...outputOptionsShape,
+      aspectRatio: z
+        .enum(ASPECT_RATIOS)
+        .default("1:1")
+        .describe("Aspect ratio for the output image (default: 1:1)"),
+      imageSize: imageSizeSchema,
+      count: countSchema,
+      includeImage: includeImageSchema,
+      model: modelSchema,
+      safetyThreshold: safetyThresholdSchema,
+      ...styleShape,
+      ...(transport.getResultCache ? cacheShape : {}),
+      ...asyncShape,
+    },
+    async (args, extra) =>
+      runImageTool(server, transport, "composite_images", args, extra, (usage, progress) =>
+        compositeImages(transport, args as CompositeImagesArgs & Record<string, unknown>, usage, progress)
+      )
+  );
+
+  server.tool(
+    "analyze_image",
+    "Analyze an image using Google's Gemini model and return a text description or answer to a question about the image. With preset or schema, the answer is JSON validated against the schema and returned as structured content.",
+    {
+      ...(acceptsFiles
+        ? {
+            imagePath: z
+              .string()
+              .optional()
+              .describe("Path to the input image file (required if imageUrl is not provided)"),
+          }
+        : {}),
+      imageUrl: z
+        .string()
+        .optional()
+        .describe(
+          acceptsFiles
+            ? "URL of the input image (data URL or real URL). Required if imagePath is not provided."
+            : "URL of the input image (data URL or real URL)."
+        ),
+      prompt: z
+        .string()
+        .optional()
+        .describe(
+          "Question or instruction about the image, e.g. 'Describe this image' or 'What objects are in the image?'. Required unless preset is given; with a preset it replaces the preset's instruction."
+        ),
+      preset: z
+        .enum(ANALYSIS_PRESETS)
+        .optional()
+        .describe(
+          "Built-in structured answer: objects (labels with bounding boxes), ocr (text blocks with bounding boxes and full text), colors (dominant colors as hex with names and shares) or alt_text (short alt text and a longer description). Bounding boxes are [ymin, xmin, ymax, xmax] normalized to 0-1000."
+        ),
+      schema: z
+        .record(z.string(), z.unknown())
+        .optional()
+        .describe("JSON Schema the answer must follow, for a custom structured answer. Not combinable with preset."),
+      model: modelSchema,
+      safetyThreshold: safetyThresholdSchema,
+    },
+    async (args, extra) =>
+      catchToolErrors(metered(transport, "analyze_image", (usage) => analyzeImage(transport, args as AnalyzeImageArgs, usage, new ToolProgress(extra))))
+  );
+
+  server.tool(
+    "compare_images",
+    `Compare an edited image with the image it came from, to check an edit: reports SSIM, PSNR, the share of changed pixels and the bounding boxes of changed regions, can render a diff image (changes in red, regions outlined), and with expectedChange asks Gemini whether the after image contains the requested change and nothing else, returned as a structured verdict.${acceptsFiles ? " A saved diff image is written to diffPath." : ""}`,
+    {
+      ...(acceptsFiles
+        ? {
+            beforePath: z.string().optional().describe("Path to the original image (required if beforeUrl is not provided)"),
+            afterPath: z.string().optional().describe("Path to the edited image (required if afterUrl is not provided)"),
+          }
+        : {}),
+      beforeUrl: z.string().optional().describe("URL of the original image (data URL or real URL)"),
+      afterUrl: z.string().optional().describe("URL of the edited image (data URL or real URL)"),
+      threshold: z
+        .number()
+        .int()
+        .min(0)
+        .max(254)
+        .default(DEFAULT_CHANGE_THRESHOLD)
+        .describe(
+          `Difference in the most changed color channel, 0-255, above which a pixel counts as changed. Default: ${DEFAULT_CHANGE_THRESHOLD}, which ignores compression noise and slight color drift`
+        ),
+      includeDiff: z
+        .enum(["none", "preview", "full"])
+        .default("none")
+        .describe(
+          `Embed the diff image in the result: none (default), preview (JPEG downscaled to at most ${PREVIEW_MAX_DIMENSION}px) or full (PNG)`
+        ),
+      saveDiff: z
+        .boolean()
+        .default(false)
+        .describe(
+          acceptsFiles
+            ? "Save the diff image to diffPath and register it as an output resource. Default: false"
+            : "Store the diff image like other outputs and return its URL. Default: false"
+        ),
+      ...(acceptsFiles
+        ? { diffPath: z.string().optional().describe("Where to save the diff image (PNG) when saveDiff is true") }
+        : {}),
+      expectedChange: z
+        .string()
+        .optional()
+        .describe(
+          "The edit that was requested, e.g. the edit_image prompt. When given, Gemini checks whether the after image contains this change and nothing else (a billed request)"
+        ),
+      model: modelSchema,
+      safetyThreshold: safetyThresholdSchema,
+    },
+    async (args, extra) => {
+      const compare = (usage: CallUsage) => compareImages(transport, args as CompareImagesArgs, usage, new ToolProgress(extra));
+      // Pixel comparisons cost nothing, so only a Gemini verdict is metered
+      const result = args.expectedChange ? metered(transport, "compare_images", compare) : compare(new CallUsage());
+      return catchToolErrors(args.saveDiff ? withOutputsChanged(server, result) : result);
+    }
+  );
+
+  server.tool(
+    "start_edit_session",
+    `Start a multi-turn editing session on an image and apply the first edit. The session keeps the conversation with Gemini and every intermediate image, so follow-up edits with continue_edit_session keep context without re-encoding the image. Returns the session id. ${output}`,
+    {
+      ...(acceptsFiles
+        ? {
+            inputPath: z
+              .string()
+              .optional()
+              .describe("Path to the input image file (required if imageUrl is not provided)"),
+          }
+        : {}),
+      imageUrl: z
+        .string()
+        .optional()
+        .describe(
+          acceptsFiles
+            ? "URL of the input image (data URL or real URL). Required if inputPath is not provided."
+            : "URL of the input image (data URL or real URL)."
+        ),
+      prompt: z.string().describe("The first edit to apply to the image."),
+      ...transport.outputShape,
+      ...outputOptionsShape,
+      aspectRatio: z
+        .enum(ASPECT_RATIOS)
+        .optional()
+        .describe("Aspect ratio for the output image (default: matches input)"),
+      imageSize: imageSizeSchema,
+      includeImage: includeImageSchema,
+      model: modelSchema.describe(
+        `Gemini model used for the whole session. Allowed values: ${ALLOWED_MODELS.join(", ")}. Default: ${defaultModel}`
+      ),
+      safetyThreshold: safetyThresholdSchema,
+    },
+    async (args, extra) =>
+      catchToolErrors(
+        withOutputsChanged(
+          server,
+          metered(transport, "start_edit_session", (usage) => startEditSession(transport, args as StartEditSessionArgs & Record<string, unknown>, usage, new ToolProgress(extra)))
+        )
+      )
+  );
+
+  server.tool(
+    "continue_edit_session",
+    `Apply a follow-up edit in an editing session, e.g. "now make the sky darker". Builds on the session head, or on any earlier step given by fromStep to branch off. ${output}`,
+    {
+      sessionId: z.string().describe("Session id returned by start_edit_session"),
+      prompt: z.string().describe("The next edit to apply."),
+      fromStep: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Step to build on (0 is the input image). Default: the session head, i.e. the latest or reverted-to step"),
+      ...transport.outputShape,
+      ...outputOptionsShape,
+      aspectRatio: z.enum(ASPECT_RATIOS).optional().describe("Aspect ratio for the output image (default: matches input)"),
+      imageSize: imageSizeSchema,
+      includeImage: includeImageSchema,
+      safetyThreshold: safetyThresholdSchema,
+    },
+    async (args, extra) =>
+      catchToolErrors(
+        withOutputsChanged(
+          server,
+          metered(transport, "continue_edit_session", (usage) => continueEditSession(transport, args as ContinueEditSessionArgs & Record<string, unknown>, usage, new ToolProgress(extra)))
+        )
+      )
+  );
+
+  server.tool(
+    "list_session_history",
+    "List every step of an editing session with its prompt, parent step and saved location, marking the current head.",
+    {
+      sessionId: z.string().describe("Session id returned by start_edit_session"),
+    },
+    async (args) => catchToolErrors(listSessionHistory(transport, args as SessionIdArgs))
+  );
+
+  server.tool(
+    "revert_session",
+    "Move an editing session's head back to an earlier step (undo). The next continue_edit_session call builds on that step; later steps are kept and can still be branched from.",
+    {
+      sessionId: z.string().describe("Session id returned by start_edit_session"),
+      step: z.number().int().min(0).describe("Step to revert to (0 is the input image)"),
+    },
+    async (args) => catchToolErrors(revertSession(transport, args as RevertSessionArgs))
+  );
+
+  if (acceptsFiles && transport.outputExists) {
+    server.tool(
+      "batch_generate",
+      "Run a batch of image jobs from a JSON or YAML manifest: prompt templates with {{variables}} and matrices, output paths, aspect ratios and optional input images (one input is edited, several are composited). Jobs run concurrently, existing outputs are skipped unless force is set, and the result reports every job.",
+      {
+        manifestPath: z
+          .string()
+          .optional()
+          .describe(
+            "Path to the manifest file. Relative output and input paths in it are resolved against its directory. Required if manifest is not provided."
+          ),
+        manifest: z
+          .string()
+          .optional()
+          .describe("Manifest content as JSON or YAML. Relative paths are resolved against the working directory."),
+        force: z.boolean().default(false).describe("Regenerate jobs whose output file already exists (default: false)"),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_BATCH_CONCURRENCY)
+          .optional()
+          .describe(
+            `Jobs to run at once, 1-${MAX_BATCH_CONCURRENCY}. Default: the manifest's concurrency, else ${DEFAULT_BATCH_CONCURRENCY}`
+          ),
+      },
+      async (args, extra) =>
+        catchToolErrors(
+          withOutputsChanged(server, batchGenerate(transport, args as BatchGenerateArgs, new ToolProgress(extra)))
+        )
+    );
+  }
+
+  server.tool(
+    "read_image_metadata",
+    "Read the provenance an image tool embedded in an output file: prompt, model, aspect ratio, input image hashes, timestamp and server version, to reproduce or audit an image.",
+    {
+      ...(acceptsFiles
+        ? {
+            imagePath: z
+              .string()
+              .optional()
+              .describe("Path to the image file (required if imageUrl is not provided)"),
+          }
+        : {}),
+      imageUrl: z
+        .string()
+        .optional()
+        .describe(
+          acceptsFiles
+            ? "URL of the image (data URL or real URL). Required if imagePath is not provided."
+            : "URL of the image (data URL or real URL)."
+        ),
+    },
+    async (args) => catchToolErrors(readImageMetadata(transport, args as ReadImageMetadataArgs))
+  );
+
+  server.tool(
+    "get_usage_report",
+    "Report token usage and estimated cost of the image tools since server start (per API key over HTTP), broken down by tool and model, together with the spending cap if one is set.",
+    {
+      sinceMinutes: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Only include calls from the last N minutes. Default: everything since server start"),
+    },
+    async (args) => catchToolErrors(getUsageReport(transport, args as UsageReportArgs))
+  );
+
+  const getJobStore = transport.getJobStore?.bind(transport);
+  if (getJobStore) {
+    server.tool(
+      "get_job_status",
+      "Report the status of a job started by an image tool with async: queued, running, succeeded (with the output URLs and the tool's result) or failed (with the error).",
+      {
+        jobId: z.string().describe("Job id returned by generate_image, edit_image or composite_images"),
+      },
+      async (args) => catchToolErrors(getJobStatus(transport, getJobStore(), args as JobStatusArgs))
+    );
+
+    server.tool(
+      "list_jobs",
+      "List the most recent background jobs of the image tools with their status, newest first.",
+      {
+        status: z.enum(JOB_STATUSES).optional().describe("Only list jobs with this status"),
+        limit: z.number().int().min(1).max(100).default(20).describe("Number of jobs to list (default: 20)"),
+      },
+      async (args) => catchToolErrors(listJobs(getJobStore(), args as ListJobsArgs))
+    );
+  }
+
+  server.registerResource(
+    "outputs",
+    new ResourceTemplate(`${OUTPUT_URI_PREFIX}{id}`, {
+      list: async () => ({
+        resources: transport.getOutputStore().list().map((record) => ({
+          uri: record.uri,
+          name: record.name,
+          mimeType: record.mimeType,
+          description: record.description,
+        })),
+      }),
+    }),
+    {
+      description: "Images produced by generate_image, edit_image and composite_images, and diff images saved by compare_images, during this session",
+    },
+    async (uri, { id }) => {
+      const record = transport.getOutputStore().get(String(id));
+      if (!record) {
+        throw new Error(`Unknown output resource: ${uri.href}`);
+      }
+      const image = await transport.readImage(record.location);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: record.mimeType,
+            blob: image.toString("base64"),
+          },
+        ],
+      };
+    }
+  );
+
+  registerStylePrompts(server, styles);
+}
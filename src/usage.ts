@@ -0,0 +1,268 @@
+import { GenerateContentResponseUsageMetadata, MediaModality } from "@google/genai";
+import { z } from "zod";
+import { CacheStats } from "./cache";
+import { ToolError } from "./errors";
+
+// Token counts of one or more Gemini responses
+export interface TokenUsage {
+  inputTokens: number;
+  /** Everything the model produced, including thoughts and image tokens */
+  outputTokens: number;
+  /** The part of outputTokens spent on images */
+  imageTokens: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  outputText: number;
+  outputImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Estimated list prices, USD per million tokens. Override them with the
+ * prices config key or NANOBANANA_PRICES when they change.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  "gemini-2.5-flash-image": { input: 0.3, outputText: 2.5, outputImage: 30 },
+  "gemini-3.1-flash-lite-image": { input: 0.25, outputText: 1.5, outputImage: 30 },
+  "gemini-3.1-flash-image": { input: 0.5, outputText: 3, outputImage: 60 },
+  "gemini-3-pro-image": { input: 2, outputText: 12, outputImage: 120 },
+};
+
+const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  outputText: z.number().min(0),
+  outputImage: z.number().min(0),
+});
+
+export const priceTableSchema = z.record(z.string(), modelPriceSchema);
+
+// Pricing and spending limits for a usage ledger
+export interface UsageSettings {
+  prices: PriceTable;
+  /** Estimated spend, in USD, after which Gemini calls are rejected */
+  spendingCapUsd?: number;
+  /** Tool calls allowed per rolling 24 hours */
+  maxCallsPerDay?: number;
+}
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES };
+
+/**
+ * Reads usage overrides from NANOBANANA_PRICES (a JSON price table, merged
+ * over the base prices per model) and NANOBANANA_SPENDING_CAP_USD.
+ */
+export function usageSettingsFromEnv(
+  env: NodeJS.ProcessEnv,
+  base: UsageSettings = DEFAULT_USAGE_SETTINGS
+): UsageSettings {
+  let prices = base.prices;
+  if (env.NANOBANANA_PRICES) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(env.NANOBANANA_PRICES);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid NANOBANANA_PRICES: ${message}`);
+    }
+    const parsed = priceTableSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid NANOBANANA_PRICES: ${z.prettifyError(parsed.error)}`);
+    }
+    prices = { ...prices, ...parsed.data };
+  }
+
+  let spendingCapUsd = base.spendingCapUsd;
+  if (env.NANOBANANA_SPENDING_CAP_USD) {
+    spendingCapUsd = Number(env.NANOBANANA_SPENDING_CAP_USD);
+    if (!Number.isFinite(spendingCapUsd) || spendingCapUsd < 0) {
+      throw new Error(`Invalid NANOBANANA_SPENDING_CAP_USD: ${env.NANOBANANA_SPENDING_CAP_USD}`);
+    }
+  }
+  return { ...base, prices, spendingCapUsd };
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, imageTokens: 0 };
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.imageTokens += usage.imageTokens;
+}
+
+// Thoughts are billed as output but reported outside candidatesTokenCount
+export function usageFromMetadata(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage {
+  const imageTokens = (metadata?.candidatesTokensDetails ?? [])
+    .filter((detail) => detail.modality === MediaModality.IMAGE)
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+  return {
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+    imageTokens,
+  };
+}
+
+export function estimateCost(prices: PriceTable, model: string, usage: TokenUsage): number {
+  const price = prices[model];
+  if (!price) {
+    return 0;
+  }
+  const textTokens = usage.outputTokens - usage.imageTokens;
+  return (
+    (usage.inputTokens * price.input + textTokens * price.outputText + usage.imageTokens * price.outputImage) /
+    1_000_000
+  );
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(4)}`;
+}
+
+export function describeUsage(usage: TokenUsage, cost: number): string {
+  return (
+    `${usage.inputTokens} input, ${usage.outputTokens} output (${usage.imageTokens} image) tokens, ` +
+    `estimated cost ${formatCost(cost)}`
+  );
+}
+
+/**
+ * Collects the token usage of every Gemini response within one tool call,
+ * per model, so it can be reported in the result and added to the ledger.
+ * Responses served from the result cache are counted in cache, not billed.
+ */
+export class CallUsage {
+  readonly byModel = new Map<string, TokenUsage>();
+  requests = 0;
+  readonly cache: CacheStats = { hits: 0, misses: 0, bypassed: 0 };
+
+  record(model: string, metadata: GenerateContentResponseUsageMetadata | undefined): void {
+    let total = this.byModel.get(model);
+    if (!total) {
+      total = emptyUsage();
+      this.byModel.set(model, total);
+    }
+    addUsage(total, usageFromMetadata(metadata));
+    this.requests += 1;
+  }
+
+  total(): TokenUsage {
+    const total = emptyUsage();
+    for (const usage of this.byModel.values()) {
+      addUsage(total, usage);
+    }
+    return total;
+  }
+}
+
+// Usage of one tool call and one model, as kept by the ledger
+export interface UsageRecord {
+  tool: string;
+  model: string;
+  usage: TokenUsage;
+  cost: number;
+  createdAt: Date;
+}
+
+// Aggregated usage for one group (tool, model or everything)
+export interface UsageSummary {
+  calls: number;
+  usage: TokenUsage;
+  cost: number;
+}
+
+export interface UsageReport {
+  since: Date;
+  total: UsageSummary;
+  byTool: Record<string, UsageSummary>;
+  byModel: Record<string, UsageSummary>;
+  /** Estimated spend since the ledger was created, which the spending cap applies to */
+  totalCostSinceStart: number;
+  spendingCapUsd?: number;
+}
+
+function emptySummary(): UsageSummary {
+  return { calls: 0, usage: emptyUsage(), cost: 0 };
+}
+
+/**
+ * Keeps the usage of every tool call since server start (per API key on the
+ * HTTP route) and enforces the spending cap. The running total covers every
+ * call; only the latest maxRecords are kept for time-window reports.
+ */
+export class UsageLedger {
+  private records: UsageRecord[] = [];
+  private totalCost = 0;
+  /** Start times of the tool calls of the last 24 hours, for maxCallsPerDay */
+  private recentCalls: number[] = [];
+  readonly startedAt = new Date();
+
+  constructor(
+    readonly settings: UsageSettings = DEFAULT_USAGE_SETTINGS,
+    private readonly maxRecords = 10_000
+  ) {}
+
+  /** Throws a quota error once the estimated spend has reached the spending cap or the daily call quota is used up. */
+  checkCap(): void {
+    const cap = this.settings.spendingCapUsd;
+    if (cap !== undefined && this.totalCost >= cap) {
+      throw new ToolError(
+        `Spending cap of ${formatCost(cap)} reached (${formatCost(this.totalCost)} spent since ${this.startedAt.toISOString()})`,
+        "quota"
+      );
+    }
+    const maxCalls = this.settings.maxCallsPerDay;
+    if (maxCalls !== undefined) {
+      const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+      this.recentCalls = this.recentCalls.filter((time) => time > dayAgo);
+      if (this.recentCalls.length >= maxCalls) {
+        throw new ToolError(`Daily quota of ${maxCalls} tool calls reached`, "quota", true);
+      }
+      this.recentCalls.push(Date.now());
+    }
+  }
+
+  /** Adds a tool call's usage and returns its estimated cost. */
+  record(tool: string, call: CallUsage): number {
+    let callCost = 0;
+    for (const [model, usage] of call.byModel) {
+      const cost = estimateCost(this.settings.prices, model, usage);
+      callCost += cost;
+      this.records.push({ tool, model, usage, cost, createdAt: new Date() });
+    }
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+    this.totalCost += callCost;
+    return callCost;
+  }
+
+  report(since: Date = this.startedAt): UsageReport {
+    const total = emptySummary();
+    const byTool: Record<string, UsageSummary> = {};
+    const byModel: Record<string, UsageSummary> = {};
+
+    for (const record of this.records) {
+      if (record.createdAt < since) {
+        continue;
+      }
+      for (const summary of [total, (byTool[record.tool] ??= emptySummary()), (byModel[record.model] ??= emptySummary())]) {
+        summary.calls += 1;
+        addUsage(summary.usage, record.usage);
+        summary.cost += record.cost;
+      }
+    }
+    return {
+      since,
+      total,
+      byTool,
+      byModel,
+      totalCostSinceStart: this.totalCost,
+      spendingCapUsd: this.settings.spendingCapUsd,
+    };
+  }
+}
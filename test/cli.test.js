@@ -0,0 +1,121 @@
+/**
+ * Runs the tool subcommands of nanobanana-mcp (dist/index.js) with the
+ * replay backend and checks their JSON output and exit codes.
+ */
+
+const assert = require('node:assert/strict');
+const { after, before, describe, it } = require('node:test');
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { INPUT_IMAGE, RECORDINGS } = require('./harness');
+
+const INDEX = path.join(__dirname, '..', 'dist', 'index.js');
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+
+describe('command line', () => {
+  let workDir;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanobanana-cli-'));
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function run(args, input, env = {}) {
+    const result = spawnSync(process.execPath, [INDEX, ...args], {
+      cwd: workDir,
+      input,
+      encoding: 'utf-8',
+      timeout: 30000,
+      env: {
+        PATH: process.env.PATH,
+        NANOBANANA_BACKEND: 'replay',
+        NANOBANANA_REPLAY_FILE: RECORDINGS,
+        GEMINI_MAX_RETRIES: '0',
+        ...env,
+      },
+    });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+  }
+
+  it('generate prints the saved file as JSON', () => {
+    const { status, stdout } = run(['generate', '--prompt', 'a banana', '--out', 'out.png']);
+    assert.equal(status, 0);
+    const result = JSON.parse(stdout);
+    assert.equal(result.ok, true);
+    assert.deepEqual(result.outputs, [{ path: path.join(fs.realpathSync(workDir), 'out.png'), mimeType: 'image/png' }]);
+    assert.ok(fs.existsSync(path.join(workDir, 'out.png')));
+  });
+
+  it('reads the prompt from stdin', () => {
+    const { status, stdout } = run(['edit', '--input', INPUT_IMAGE, '--prompt-file', '-', '--out', 'edited.png'], 'make it green\n');
+    assert.equal(status, 0, stdout);
+    assert.match(JSON.parse(stdout).text, /Edit: make it green/);
+  });
+
+  it('applies --style with --style-var values', () => {
+    const { status, stdout } = run([
+      'generate', '--prompt', 'a banana', '--out', 'styled.png',
+      '--style', 'line-icon', '--style', 'brand-palette', '--style-var', 'colors=#FFD500 yellow',
+    ]);
+    assert.equal(status, 0, stdout);
+    assert.match(JSON.parse(stdout).text, /Style: line-icon, brand-palette/);
+    assert.equal(run(['generate', '--prompt', 'a banana', '--out', 'x.png', '--style-var', 'colors']).status, 2);
+  });
+
+  it('analyze returns the structured answer', () => {
+    const { status, stdout } = run(['analyze', '--input', INPUT_IMAGE, '--preset', 'alt_text']);
+    assert.equal(status, 0);
+    assert.equal(JSON.parse(stdout).answer.altText, 'A plain yellow square');
+  });
+
+  it('exits with the code of the error category', () => {
+    const cases = [
+      [['generate', '--prompt', 'a banana #safety', '--out', 'safety.png'], 5, 'safety'],
+      [['composite', '--input', INPUT_IMAGE, '--input', INPUT_IMAGE, '--prompt', 'x #quota', '--out', 'q.png'], 4, 'quota'],
+      [['generate', '--prompt', 'a banana', '--out', 'count.png', '--count', '99'], 2, 'invalid_input'],
+    ];
+    for (const [args, code, category] of cases) {
+      const { status, stdout } = run(args);
+      assert.equal(status, code, stdout);
+      const result = JSON.parse(stdout);
+      assert.equal(result.ok, false);
+      assert.equal(result.error.category, category);
+    }
+  });
+
+  it('reports unreadable prompt files and invalid settings as failed calls', () => {
+    const cases = [
+      [['generate', '--prompt-file', 'missing.txt', '--out', 'missing.png'], {}, /Could not read prompt file missing\.txt/],
+      [['generate', '--prompt', 'a banana', '--out', 'config.png'], { NANOBANANA_CONFIG: 'missing.json' }, /missing\.json/],
+      [['generate', '--prompt', 'a banana', '--out', 'model.png'], { NANOBANANA_MODEL: 'dall-e' }, /Invalid NANOBANANA_MODEL/],
+    ];
+    for (const [args, env, message] of cases) {
+      const { status, stdout, stderr } = run(args, undefined, env);
+      assert.equal(status, 2, stderr);
+      const result = JSON.parse(stdout);
+      assert.equal(result.ok, false);
+      assert.equal(result.tool, 'generate_image');
+      assert.equal(result.error.category, 'invalid_input');
+      assert.match(result.error.message, message);
+    }
+    assert.equal(fs.readdirSync(workDir).some((file) => /^(missing|config|model)\.png$/.test(file)), false);
+  });
+
+  it('rejects bad usage with exit code 2', () => {
+    assert.equal(run(['generate', '--out', 'x.png']).status, 2);
+    assert.equal(run(['analyze', '--input', INPUT_IMAGE, '--out', 'x.png']).status, 2);
+  });
+
+  it('nanobanana rejects unknown commands, including Object.prototype keys', () => {
+    for (const command of ['paint', 'toString', 'constructor']) {
+      const result = spawnSync(process.execPath, [CLI, command], { encoding: 'utf-8', timeout: 30000 });
+      assert.equal(result.status, 2, result.stderr);
+      assert.match(result.stderr, new RegExp(`Unknown command: ${command}`));
+    }
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Checks the URL download guard of dist/fetch.js against a local HTTP
+ * server. Hostnames under .test get fake DNS answers, and connections to
+ * them reach the local server once the guard has passed their address.
+ */
+
+const assert = require('node:assert/strict');
+const { after, before, describe, it } = require('node:test');
+const dns = require('dns');
+const http = require('http');
+const net = require('net');
+const { DEFAULT_URL_POLICY, fetchUrl } = require('../dist/fetch.js');
+
+const FAKE_DNS = {
+  'images.test': '203.0.113.10',
+  'intranet.test': '10.0.0.5',
+};
+
+const LARGE_BODY = Buffer.alloc(128 * 1024, 1);
+
+describe('fetchUrl', () => {
+  const requested = [];
+  let server;
+  let port;
+  const { lookup } = dns;
+  const { createConnection } = http.globalAgent;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requested.push(`${req.headers.host.split(':')[0]}${req.url}`);
+      switch (req.url) {
+        case '/image.png':
+          res.writeHead(200, { 'Content-Type': 'image/png' }).end('png');
+          break;
+        case '/large.png':
+          res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': LARGE_BODY.length }).end(LARGE_BODY);
+          break;
+        case '/streamed.png':
+          // No Content-Length, so only the running byte count can stop it
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          for (let offset = 0; offset < LARGE_BODY.length; offset += 16 * 1024) {
+            res.write(LARGE_BODY.subarray(offset, offset + 16 * 1024));
+          }
+          res.end();
+          break;
+        case '/to-metadata':
+          res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+          break;
+        case '/to-intranet':
+          res.writeHead(302, { Location: 'http://intranet.test/secret.png' }).end();
+          break;
+        case '/to-image':
+          res.writeHead(302, { Location: '/image.png' }).end();
+          break;
+        default:
+          res.writeHead(404).end();
+      }
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = server.address().port;
+
+    dns.lookup = (hostname, options, callback) => {
+      if (!(hostname in FAKE_DNS)) {
+        return lookup(hostname, options, callback);
+      }
+      const address = FAKE_DNS[hostname];
+      return options.all ? callback(null, [{ address, family: 4 }]) : callback(null, address, 4);
+    };
+    // Resolve through the guard's lookup, then connect to the local server whatever the answer
+    http.globalAgent.createConnection = (options, callback) => {
+      if (!(options.host in FAKE_DNS)) {
+        return createConnection.call(http.globalAgent, options, callback);
+      }
+      return net.createConnection({
+        host: options.host,
+        port,
+        lookup: (hostname, lookupOptions, answer) =>
+          options.lookup(hostname, lookupOptions, (error) => {
+            if (error) {
+              answer(error);
+            } else if (lookupOptions.all) {
+              answer(null, [{ address: '127.0.0.1', family: 4 }]);
+            } else {
+              answer(null, '127.0.0.1', 4);
+            }
+          }),
+      });
+    };
+  });
+
+  after(() => {
+    dns.lookup = lookup;
+    http.globalAgent.createConnection = createConnection;
+    server.close();
+  });
+
+  async function assertRejected(promise, pattern) {
+    await assert.rejects(promise, (error) => {
+      assert.equal(error.category, 'invalid_input');
+      assert.match(error.message, pattern);
+      return true;
+    });
+  }
+
+  it('downloads from public addresses and follows redirects', async () => {
+    const fetched = await fetchUrl('http://images.test/to-image');
+    assert.equal(fetched.body.toString(), 'png');
+    assert.equal(fetched.contentType, 'image/png');
+  });
+
+  it('rejects loopback and private addresses before connecting', async () => {
+    requested.length = 0;
+    await assertRejected(fetchUrl(`http://127.0.0.1:${port}/image.png`), /private or reserved address: 127\.0\.0\.1/);
+    await assertRejected(fetchUrl('http://[::1]/image.png'), /private or reserved address: ::1/);
+    await assertRejected(fetchUrl('http://169.254.169.254/latest/meta-data/'), /private or reserved address/);
+    await assertRejected(fetchUrl(`http://localhost:${port}/image.png`), /localhost resolves to a private or reserved address/);
+    await assertRejected(fetchUrl('http://intranet.test/secret.png'), /intranet\.test resolves to a private or reserved address: 10\.0\.0\.5/);
+    assert.deepEqual(requested, []);
+  });
+
+  it('refuses redirects to private addresses', async () => {
+    requested.length = 0;
+    await assertRejected(fetchUrl('http://images.test/to-metadata'), /private or reserved address: 169\.254\.169\.254/);
+    await assertRejected(fetchUrl('http://images.test/to-intranet'), /intranet\.test resolves to a private or reserved address/);
+    assert.deepEqual(requested, ['images.test/to-metadata', 'images.test/to-intranet']);
+  });
+
+  it('enforces the size cap with and without Content-Length', async () => {
+    const policy = { ...DEFAULT_URL_POLICY, maxBytes: 64 * 1024 };
+    await assertRejected(fetchUrl('http://images.test/large.png', policy), /larger than the 0\.06 MB download limit/);
+    await assertRejected(fetchUrl('http://images.test/streamed.png', policy), /larger than the 0\.06 MB download limit/);
+    const fetched = await fetchUrl('http://images.test/large.png', { ...policy, maxBytes: LARGE_BODY.length });
+    assert.equal(fetched.body.length, LARGE_BODY.length);
+  });
+});
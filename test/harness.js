@@ -0,0 +1,312 @@
+/**
+ * Shared setup for the offline tool tests: connects MCP clients to the
+ * stdio server and the HTTP handler with Gemini replaced by recorded
+ * responses (test/fixtures/recordings.json), and defines the tool tests
+ * both transports must pass. Run "npm run build" first.
+ */
+
+const assert = require('node:assert/strict');
+const { it } = require('node:test');
+const fs = require('fs');
+const path = require('path');
+const sharp = require('sharp');
+const { Client } = require('@modelcontextprotocol/sdk/client/index.js');
+const { StdioClientTransport } = require('@modelcontextprotocol/sdk/client/stdio.js');
+const { StreamableHTTPClientTransport } = require('@modelcontextprotocol/sdk/client/streamableHttp.js');
+
+const DIST = path.join(__dirname, '..', 'dist');
+const FIXTURES = path.join(__dirname, 'fixtures');
+const RECORDINGS = path.join(FIXTURES, 'recordings.json');
+const INPUT_IMAGE = path.join(FIXTURES, 'yellow.png');
+const INPUT_DATA_URL = `data:image/png;base64,${fs.readFileSync(INPUT_IMAGE).toString('base64')}`;
+// The input image with a 4x4 red square at (8, 8)
+const EDITED_IMAGE = path.join(FIXTURES, 'yellow-red-square.png');
+const EDITED_DATA_URL = `data:image/png;base64,${fs.readFileSync(EDITED_IMAGE).toString('base64')}`;
+
+if (!fs.existsSync(path.join(DIST, 'index.js'))) {
+  throw new Error('Build output not found. Run "npm run build" first.');
+}
+
+function newClient() {
+  return new Client({ name: 'nanobanana-tests', version: '1.0.0' });
+}
+
+/** Starts dist/index.js with the replay backend, confined to workDir and the fixtures, with extra env. */
+async function connectStdio(workDir, env = {}) {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [path.join(DIST, 'index.js')],
+    cwd: workDir,
+    env: {
+      NANOBANANA_BACKEND: 'replay',
+      NANOBANANA_REPLAY_FILE: RECORDINGS,
+      NANOBANANA_ALLOWED_DIRS: [workDir, FIXTURES].join(path.delimiter),
+      GEMINI_MAX_RETRIES: '0',
+      ...env,
+    },
+    stderr: 'pipe',
+  });
+  const client = newClient();
+  await client.connect(transport);
+  return client;
+}
+
+/**
+ * Builds the /mcp handler around a ReplayGeminiClient and connects a client
+ * whose fetch calls the handler directly, so no port is opened. Returns the
+ * client, the replay client (for the requests it received) and the API keys
+ * Gemini clients were created with.
+ */
+async function connectHttp({ env = {}, headers = { GOOGLE_API_KEY: 'test-key' } } = {}) {
+  const { createHttpHandler } = require(path.join(DIST, 'http.js'));
+  const { ReplayGeminiClient } = require(path.join(DIST, 'replay.js'));
+  const replay = ReplayGeminiClient.fromFile(RECORDINGS);
+  const apiKeys = [];
+
+  // mcp-handler starts a cleanup interval that would keep the test process alive
+  const setInterval = global.setInterval;
+  global.setInterval = (...args) => setInterval(...args).unref();
+  let handler;
+  try {
+    handler = createHttpHandler(
+      { STORAGE_BACKEND: 'inline', GEMINI_MAX_RETRIES: '0', ...env },
+      {
+        createGeminiClient: (apiKey) => {
+          apiKeys.push(apiKey);
+          return replay;
+        },
+      }
+    );
+  } finally {
+    global.setInterval = setInterval;
+  }
+
+  const transport = new StreamableHTTPClientTransport(new URL('http://localhost/mcp'), {
+    fetch: (url, init) => handler(new Request(url, init)),
+    requestInit: { headers },
+  });
+  const client = newClient();
+  await client.connect(transport);
+  return { client, replay, apiKeys, handler };
+}
+
+function resultText(result) {
+  return result.content
+    .filter((item) => item.type === 'text')
+    .map((item) => item.text)
+    .join('\n');
+}
+
+// Reads the image a successful call produced back through its output resource
+async function readOutputImage(client, result) {
+  assert.ok(!result.isError, resultText(result));
+  const link = result.content.find((item) => item.type === 'resource_link');
+  assert.ok(link, 'result has no resource link');
+  const { contents } = await client.readResource({ uri: link.uri });
+  return Buffer.from(contents[0].blob, 'base64');
+}
+
+async function assertReplayedImage(client, result) {
+  const image = await readOutputImage(client, result);
+  const { format, width, height } = await sharp(image).metadata();
+  assert.deepEqual({ format, width, height }, { format: 'png', width: 16, height: 16 });
+}
+
+function assertToolError(result, category, retryable) {
+  assert.equal(result.isError, true, resultText(result));
+  const text = resultText(result);
+  assert.match(text, new RegExp(`^Category: ${category}$`, 'm'));
+  assert.match(text, new RegExp(`^Retryable: ${retryable ? 'yes' : 'no'}$`, 'm'));
+  return text;
+}
+
+/**
+ * The tests every transport runs. getClient returns the connected client;
+ * inputs holds the transport's way of passing the fixture image to edit
+ * (edit), composite (composite) and analyze (analyze), and the fixture and
+ * its edited version to compare_images (compare); output(name) gives
+ * the output arguments of a call.
+ */
+function defineToolTests({ getClient, inputs, output }) {
+  const call = (name, args) => getClient().callTool({ name, arguments: args });
+
+  it('lists the image tools', async () => {
+    const { tools } = await getClient().listTools();
+    const names = tools.map((tool) => tool.name);
+    for (const name of ['generate_image', 'edit_image', 'composite_images', 'analyze_image', 'compare_images']) {
+      assert.ok(names.includes(name), `${name} missing from ${names.join(', ')}`);
+    }
+  });
+
+  it('generate_image returns the replayed image', async () => {
+    const result = await call('generate_image', { prompt: 'a banana', ...output('generated.png') });
+    await assertReplayedImage(getClient(), result);
+    assert.match(resultText(result), /Model text: Here is your image\./);
+  });
+
+  it('lists the styles as prompts', async () => {
+    const { prompts } = await getClient().listPrompts();
+    const brand = prompts.find((prompt) => prompt.name === 'brand-palette');
+    assert.ok(brand, `brand-palette missing from ${prompts.map((prompt) => prompt.name).join(', ')}`);
+    assert.deepEqual(
+      brand.arguments.map(({ name, required }) => ({ name, required })),
+      [
+        { name: 'subject', required: true },
+        { name: 'colors', required: true },
+      ]
+    );
+  });
+
+  it('a style prompt shows the styled prompt and the tool arguments', async () => {
+    const { messages } = await getClient().getPrompt({ name: 'product-shot', arguments: { subject: 'a mug' } });
+    const { text } = messages[0].content;
+    assert.match(text, /"style": "product-shot"/);
+    assert.match(text, /Professional product photograph of a mug, centered on a seamless white background/);
+  });
+
+  it('generate_image applies styles in order', async () => {
+    const result = await call('generate_image', {
+      prompt: 'a banana',
+      style: ['flat-vector-icon', 'brand-palette'],
+      styleVariables: { colors: '#FFD500 yellow' },
+      ...output('styled.png'),
+    });
+    await assertReplayedImage(getClient(), result);
+    assert.match(resultText(result), /^Style: flat-vector-icon, brand-palette$/m);
+  });
+
+  it('rejects a style missing a required variable', async () => {
+    const result = await call('generate_image', { prompt: 'a banana', style: 'brand-palette', ...output('unstyled.png') });
+    const text = assertToolError(result, 'invalid_input', false);
+    assert.match(text, /Style brand-palette needs the variable colors/);
+  });
+
+  it('edit_image edits an input image', async () => {
+    const result = await call('edit_image', { prompt: 'make it green', ...inputs.edit, ...output('edited.png') });
+    await assertReplayedImage(getClient(), result);
+  });
+
+  it('edit_image keeps the pixels outside the edited regions', async () => {
+    // The model repaints the whole image blue; only the top left quarter may change
+    const result = await call('edit_image', {
+      prompt: 'paint the corner blue #repaint',
+      regions: [{ type: 'rectangle', x: 0, y: 0, width: 8, height: 8 }],
+      ...inputs.edit,
+      ...output('region.png'),
+    });
+    const pixels = (image) => sharp(image).removeAlpha().raw().toBuffer();
+    const edited = await pixels(await readOutputImage(getClient(), result));
+    const input = await pixels(INPUT_IMAGE);
+    for (let y = 0; y < 16; y++) {
+      for (let x = 0; x < 16; x++) {
+        const offset = (y * 16 + x) * 3;
+        const expected = x < 8 && y < 8 ? Buffer.from([0, 0, 255]) : input.subarray(offset, offset + 3);
+        assert.deepEqual(edited.subarray(offset, offset + 3), expected, `pixel ${x}, ${y}`);
+      }
+    }
+  });
+
+  it('continue_edit_session runs concurrent steps of a session one after another', async () => {
+    const started = await call('start_edit_session', { prompt: 'add a hat', ...inputs.edit, ...output('session-1.png') });
+    assert.ok(!started.isError, resultText(started));
+    const sessionId = resultText(started).match(/^Session: (\S+)$/m)[1];
+    const steps = await Promise.all(
+      ['add a scarf', 'add gloves'].map((prompt, index) =>
+        call('continue_edit_session', { sessionId, prompt, ...output(`session-${index + 2}.png`) })
+      )
+    );
+    for (const step of steps) {
+      assert.ok(!step.isError, resultText(step));
+    }
+    const history = resultText(await call('list_session_history', { sessionId }));
+    assert.match(history, /^Step 2 \(from step 1\): add a scarf$/m);
+    assert.match(history, /^Step 3 \(from step 2\): add gloves \[head\]$/m);
+  });
+
+  it('composite_images combines input images', async () => {
+    const result = await call('composite_images', {
+      prompt: 'place them side by side',
+      ...inputs.composite,
+      ...output('composite.png'),
+    });
+    await assertReplayedImage(getClient(), result);
+  });
+
+  it('analyze_image answers in text', async () => {
+    const result = await call('analyze_image', { prompt: 'What is this? #describe', ...inputs.analyze });
+    assert.ok(!result.isError, resultText(result));
+    assert.match(resultText(result), /A plain yellow square\./);
+  });
+
+  it('analyze_image returns a preset answer as structured content', async () => {
+    const result = await call('analyze_image', { preset: 'alt_text', ...inputs.analyze });
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent.altText, 'A plain yellow square');
+  });
+
+  it('compare_images finds the changed region', async () => {
+    const result = await call('compare_images', inputs.compare);
+    assert.ok(!result.isError, resultText(result));
+    const { ssim, psnr, regions } = result.structuredContent;
+    assert.ok(ssim < 1 && psnr > 0, `ssim ${ssim}, psnr ${psnr}`);
+    assert.deepEqual(regions, [{ x: 8, y: 8, width: 4, height: 4, changedPixels: 16 }]);
+    assert.match(resultText(result), /^ {2}8, 8, 4x4 \(16 changed pixels\)$/m);
+  });
+
+  it('compare_images returns a diff image and a Gemini verdict', async () => {
+    const result = await call('compare_images', {
+      ...inputs.compare,
+      expectedChange: 'add a small red square #verify',
+      includeDiff: 'full',
+    });
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent.verification.verdict, 'pass');
+    assert.match(resultText(result), /^Verdict: pass$/m);
+    const diff = result.content.find((item) => item.type === 'image');
+    const { data, info } = await sharp(Buffer.from(diff.data, 'base64')).raw().toBuffer({ resolveWithObject: true });
+    const pixel = (x, y) => [...data.subarray((y * info.width + x) * info.channels, (y * info.width + x) * info.channels + 3)];
+    assert.deepEqual(pixel(9, 9), [230, 30, 30]);
+    assert.notDeepEqual(pixel(2, 2), [230, 30, 30]);
+  });
+
+  it('reports a blocked prompt as a safety error', async () => {
+    const result = await call('generate_image', { prompt: 'something dangerous #safety', ...output('blocked.png') });
+    const text = assertToolError(result, 'safety', false);
+    assert.match(text, /Safety categories: DANGEROUS_CONTENT/);
+  });
+
+  it('reports a text-only reply as no_image', async () => {
+    const result = await call('edit_image', { prompt: 'a banana #text-only', ...inputs.edit, ...output('text.png') });
+    const text = assertToolError(result, 'no_image', false);
+    assert.match(text, /Model text: Which kind of banana/);
+  });
+
+  it('reports empty candidates as an internal error', async () => {
+    const result = await call('generate_image', { prompt: 'a banana #empty', ...output('empty.png') });
+    assertToolError(result, 'internal', false);
+  });
+
+  it('reports a 429 as a retryable quota error', async () => {
+    const result = await call('composite_images', {
+      prompt: 'a banana #quota',
+      ...inputs.composite,
+      ...output('quota.png'),
+    });
+    const text = assertToolError(result, 'quota', true);
+    assert.match(text, /Resource has been exhausted/);
+  });
+}
+
+module.exports = {
+  FIXTURES,
+  RECORDINGS,
+  INPUT_IMAGE,
+  INPUT_DATA_URL,
+  EDITED_IMAGE,
+  EDITED_DATA_URL,
+  connectStdio,
+  connectHttp,
+  resultText,
+  assertToolError,
+  defineToolTests,
+};
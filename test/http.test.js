@@ -0,0 +1,258 @@
+/**
+ * Drives the /mcp handler (dist/http.js, as served by app/mcp/route.ts)
+ * end-to-end in process, with Gemini replaced by a ReplayGeminiClient.
+ */
+
+const assert = require('node:assert/strict');
+const { after, before, describe, it } = require('node:test');
+const { createHmac } = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+const { hashToken } = require('../dist/auth.js');
+const { createImageRouteHandler } = require('../dist/storage.js');
+const { EDITED_DATA_URL, FIXTURES, INPUT_DATA_URL, connectHttp, defineToolTests, resultText } = require('./harness');
+
+describe('HTTP handler', () => {
+  let connection;
+
+  before(async () => {
+    connection = await connectHttp();
+  });
+
+  after(async () => {
+    await connection?.client.close();
+  });
+
+  defineToolTests({
+    getClient: () => connection.client,
+    inputs: {
+      edit: { imageUrl: INPUT_DATA_URL },
+      composite: { imageUrls: [INPUT_DATA_URL, INPUT_DATA_URL] },
+      analyze: { imageUrl: INPUT_DATA_URL },
+      compare: { beforeUrl: INPUT_DATA_URL, afterUrl: EDITED_DATA_URL },
+    },
+    output: () => ({}),
+  });
+
+  it('creates Gemini clients with the caller\'s GOOGLE_API_KEY', async () => {
+    assert.ok(connection.apiKeys.length > 0);
+    assert.ok(connection.apiKeys.every((apiKey) => apiKey === 'test-key'));
+  });
+
+  it('sends input images to Gemini', async () => {
+    const result = await connection.client.callTool({
+      name: 'edit_image',
+      arguments: { prompt: 'make it blue', imageUrl: INPUT_DATA_URL },
+    });
+    assert.ok(!result.isError, resultText(result));
+    const request = connection.replay.requests.at(-1);
+    const parts = request.contents.flatMap((content) => content.parts ?? [content]);
+    assert.ok(parts.some((part) => part.inlineData?.mimeType === 'image/png'));
+  });
+
+  it('sends the styled prompt to Gemini', async () => {
+    const result = await connection.client.callTool({
+      name: 'generate_image',
+      arguments: { prompt: 'a mug', style: 'product-shot', styleVariables: { background: 'black' } },
+    });
+    assert.ok(!result.isError, resultText(result));
+    const { contents } = connection.replay.requests.at(-1);
+    assert.match(contents, /^Professional product photograph of a mug, centered on a seamless black background/);
+    assert.match(contents, /\n\nAvoid: props, clutter/);
+  });
+
+  it('adds the styles of NANOBANANA_STYLES_DIR', async () => {
+    const styled = await connectHttp({ env: { NANOBANANA_STYLES_DIR: path.join(FIXTURES, 'styles') } });
+    try {
+      const { prompts } = await styled.client.listPrompts();
+      assert.ok(prompts.some((prompt) => prompt.name === 'sticker'));
+      const result = await styled.client.callTool({ name: 'generate_image', arguments: { prompt: 'a cat', style: 'sticker' } });
+      assert.ok(!result.isError, resultText(result));
+      assert.equal(
+        styled.replay.requests.at(-1).contents,
+        'Die-cut sticker of a cat, bold pastel colors, thick white border, plain background\n\nAvoid: text, drop shadows.'
+      );
+    } finally {
+      await styled.client.close();
+    }
+  });
+
+  it('runs image tools as background jobs with JOB_MODE=optional', async () => {
+    const jobs = await connectHttp({ env: { JOB_MODE: 'optional' } });
+    const status = async (jobId) => {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const result = await jobs.client.callTool({ name: 'get_job_status', arguments: { jobId } });
+        const { job } = result.structuredContent;
+        if (job.status === 'succeeded' || job.status === 'failed') {
+          return { job, text: resultText(result) };
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      throw new Error(`Job ${jobId} did not finish`);
+    };
+    try {
+      const queued = await jobs.client.callTool({ name: 'generate_image', arguments: { prompt: 'a banana', async: true } });
+      assert.ok(!queued.isError, resultText(queued));
+      assert.equal(queued.structuredContent.status, 'queued');
+      const succeeded = await status(queued.structuredContent.jobId);
+      assert.equal(succeeded.job.status, 'succeeded');
+      assert.match(succeeded.job.outputs[0].location, /^data:image\/png;base64,/);
+      assert.match(succeeded.text, /Model text: Here is your image\./);
+
+      const blocked = await jobs.client.callTool({
+        name: 'edit_image',
+        arguments: { prompt: 'something dangerous #safety', imageUrl: INPUT_DATA_URL, async: true },
+      });
+      const failed = await status(blocked.structuredContent.jobId);
+      assert.equal(failed.job.status, 'failed');
+      assert.equal(failed.job.error.category, 'safety');
+
+      const listed = await jobs.client.callTool({ name: 'list_jobs', arguments: { status: 'failed' } });
+      assert.deepEqual(listed.structuredContent.jobs.map((job) => job.id), [failed.job.id]);
+    } finally {
+      await jobs.client.close();
+    }
+  });
+
+  it('hides the job tools unless JOB_MODE is set', async () => {
+    const { tools } = await connection.client.listTools();
+    assert.ok(!tools.some((tool) => tool.name === 'get_job_status'));
+    const generate = tools.find((tool) => tool.name === 'generate_image');
+    assert.ok(!('async' in generate.inputSchema.properties));
+  });
+
+  it('rejects requests without GOOGLE_API_KEY', async () => {
+    const response = await connection.handler(
+      new Request('http://localhost/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+      })
+    );
+    assert.equal(response.status, 401);
+  });
+
+  it('uses the server\'s Gemini keys for bearer tokens in token mode', async () => {
+    const env = {
+      AUTH_MODE: 'token',
+      GEMINI_API_KEYS: 'server-key',
+      MCP_TOKENS: JSON.stringify({ tokens: [{ id: 'tests', sha256: hashToken('nbt_test') }] }),
+    };
+    const tokenMode = await connectHttp({ env, headers: { Authorization: 'Bearer nbt_test' } });
+    try {
+      const result = await tokenMode.client.callTool({ name: 'generate_image', arguments: { prompt: 'a banana' } });
+      assert.ok(!result.isError, resultText(result));
+      assert.deepEqual(tokenMode.apiKeys, ['server-key']);
+    } finally {
+      await tokenMode.client.close();
+    }
+    await assert.rejects(connectHttp({ env, headers: { Authorization: 'Bearer nbt_wrong' } }));
+  });
+
+  it('accepts introspected OAuth tokens only when they name a subject or client', async () => {
+    const introspection = {
+      'oauth-user': { active: true, sub: 'alice', scope: 'images' },
+      'oauth-anonymous': { active: true, scope: 'images' },
+      'oauth-inactive': { active: false },
+    };
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(introspection[new URLSearchParams(body).get('token')] ?? { active: false }));
+      });
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const env = {
+      AUTH_MODE: 'token',
+      GEMINI_API_KEYS: 'server-key',
+      OAUTH_ISSUER: 'https://issuer.example',
+      OAUTH_INTROSPECTION_URL: `http://127.0.0.1:${server.address().port}/introspect`,
+    };
+    try {
+      const oauth = await connectHttp({ env, headers: { Authorization: 'Bearer oauth-user' } });
+      await oauth.client.close();
+      await assert.rejects(connectHttp({ env, headers: { Authorization: 'Bearer oauth-anonymous' } }));
+      await assert.rejects(connectHttp({ env, headers: { Authorization: 'Bearer oauth-inactive' } }));
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('/images route', () => {
+  const secret = 'test-signing-secret';
+  let storageDir;
+  let connection;
+  let serve;
+  let imageUrl;
+
+  // Signs a key the way the route checks it: HMAC of key and expiry time
+  const signedUrl = (key, expires) => {
+    const signature = createHmac('sha256', secret).update(`${key}\n${expires}`).digest('base64url');
+    return `http://localhost/images/${key}?expires=${expires}&signature=${signature}`;
+  };
+
+  before(async () => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanobanana-images-'));
+    const env = {
+      STORAGE_BACKEND: 'filesystem',
+      STORAGE_DIR: storageDir,
+      STORAGE_PUBLIC_URL: 'http://localhost',
+      STORAGE_PRIVATE: 'true',
+      STORAGE_SIGNING_SECRET: secret,
+    };
+    connection = await connectHttp({ env });
+    serve = createImageRouteHandler(env);
+    const result = await connection.client.callTool({ name: 'generate_image', arguments: { prompt: 'a banana' } });
+    assert.ok(!result.isError, resultText(result));
+    imageUrl = resultText(result).match(/http:\/\/localhost\/images\/\S+/)[0];
+  });
+
+  after(async () => {
+    await connection?.client.close();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('serves a stored image by its signed URL', async () => {
+    const response = await serve(new Request(imageUrl));
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('Content-Type'), 'image/png');
+    assert.equal(response.headers.get('Cache-Control'), 'private, max-age=60');
+    const body = Buffer.from(await response.arrayBuffer());
+    assert.deepEqual(body.subarray(1, 4), Buffer.from('PNG'));
+  });
+
+  it('rejects a tampered signature', async () => {
+    const url = new URL(imageUrl);
+    const signature = url.searchParams.get('signature');
+    url.searchParams.set('signature', `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`);
+    assert.equal((await serve(new Request(url))).status, 403);
+    url.searchParams.delete('signature');
+    assert.equal((await serve(new Request(url))).status, 403);
+  });
+
+  it('rejects an expired URL', async () => {
+    const key = new URL(imageUrl).pathname.slice('/images/'.length);
+    const now = Math.floor(Date.now() / 1000);
+    assert.equal((await serve(new Request(signedUrl(key, now + 60)))).status, 200);
+    assert.equal((await serve(new Request(signedUrl(key, now - 60)))).status, 403);
+  });
+
+  it('does not serve keys other than images, even when signed', async () => {
+    fs.mkdirSync(path.join(storageDir, 'sessions', 'abc'), { recursive: true });
+    fs.writeFileSync(path.join(storageDir, 'sessions', 'abc', 'session.json'), '{}');
+    const expires = Math.floor(Date.now() / 1000) + 60;
+    assert.equal((await serve(new Request(signedUrl('sessions/abc/session.json', expires)))).status, 404);
+    // An encoded slash survives URL normalization and must not climb out of the storage directory
+    assert.equal((await serve(new Request(signedUrl('..%2Fsecret.png', expires)))).status, 400);
+  });
+
+  it('serves nothing for public Vercel Blob storage', async () => {
+    const publicBlob = createImageRouteHandler({ STORAGE_BACKEND: 'blob' });
+    assert.equal((await publicBlob(new Request(imageUrl))).status, 404);
+  });
+});
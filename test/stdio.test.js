@@ -0,0 +1,199 @@
+/**
+ * Drives the stdio server (dist/index.js) end-to-end with the replay
+ * backend: every Gemini response comes from test/fixtures/recordings.json.
+ */
+
+const assert = require('node:assert/strict');
+const { after, before, describe, it } = require('node:test');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const sharp = require('sharp');
+const { EDITED_IMAGE, INPUT_IMAGE, assertToolError, connectStdio, defineToolTests, resultText } = require('./harness');
+
+describe('stdio server', () => {
+  let workDir;
+  let client;
+
+  before(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanobanana-test-'));
+    client = await connectStdio(workDir);
+  });
+
+  after(async () => {
+    await client?.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  defineToolTests({
+    getClient: () => client,
+    inputs: {
+      edit: { inputPath: INPUT_IMAGE },
+      composite: { imagePaths: [INPUT_IMAGE, INPUT_IMAGE] },
+      analyze: { imagePath: INPUT_IMAGE },
+      compare: { beforePath: INPUT_IMAGE, afterPath: EDITED_IMAGE },
+    },
+    output: (name) => ({ outputPath: path.join(workDir, name) }),
+  });
+
+  it('writes outputs to outputPath', async () => {
+    const outputPath = path.join(workDir, 'written.png');
+    const result = await client.callTool({ name: 'generate_image', arguments: { prompt: 'a banana', outputPath } });
+    assert.ok(!result.isError, resultText(result));
+    assert.deepEqual(fs.readFileSync(outputPath).subarray(1, 4), Buffer.from('PNG'));
+  });
+
+  it('saves the diff image of compare_images to diffPath', async () => {
+    const diffPath = path.join(workDir, 'diff.png');
+    const result = await client.callTool({
+      name: 'compare_images',
+      arguments: { beforePath: INPUT_IMAGE, afterPath: EDITED_IMAGE, saveDiff: true, diffPath },
+    });
+    assert.ok(!result.isError, resultText(result));
+    assert.equal(result.structuredContent.diff, fs.realpathSync(diffPath));
+    assert.ok(result.content.some((item) => item.type === 'resource_link'));
+  });
+
+  it('rejects an existing outputPath before calling Gemini', async () => {
+    // A request that reached Gemini would fail with the quota error recorded for this prompt
+    const cases = [
+      { outputPath: path.join(workDir, 'existing.png'), existing: 'existing.png' },
+      { outputPath: path.join(workDir, 'variants.png'), count: 2, existing: 'variants-2.png' },
+    ];
+    for (const { existing, ...output } of cases) {
+      fs.writeFileSync(path.join(workDir, existing), 'keep me');
+      const result = await client.callTool({ name: 'generate_image', arguments: { prompt: 'a banana #quota', ...output } });
+      assert.match(assertToolError(result, 'invalid_input', false), /Output file already exists/);
+      assert.equal(fs.readFileSync(path.join(workDir, existing), 'utf8'), 'keep me');
+    }
+  });
+
+  it('saves one image per request when a response holds several', async () => {
+    const outputPath = path.join(workDir, 'two-images.png');
+    const result = await client.callTool({ name: 'generate_image', arguments: { prompt: 'a banana #two-images', outputPath } });
+    assert.ok(!result.isError, resultText(result));
+    assert.match(resultText(result), /^Generated image saved to: /);
+    // The first image (plain yellow), not the second with its red square
+    const pixels = (file) => sharp(file).removeAlpha().raw().toBuffer();
+    assert.deepEqual(await pixels(outputPath), await pixels(INPUT_IMAGE));
+    assert.deepEqual(fs.readdirSync(workDir).filter((name) => name.startsWith('two-images')), ['two-images.png']);
+  });
+
+  it('numbers variant files by request when one fails', async () => {
+    const outputPath = path.join(workDir, 'gap.png');
+    const result = await client.callTool({
+      name: 'generate_image',
+      arguments: { prompt: 'a banana #second-fails', outputPath, count: 3 },
+    });
+    assert.ok(!result.isError, resultText(result));
+    const text = resultText(result);
+    assert.match(text, /^Variant 2: no image returned\n  Error: Internal error encountered\.$/m);
+    assert.match(text, /^Variant 3: .*gap-3\.png$/m);
+    assert.deepEqual(fs.readdirSync(workDir).filter((name) => name.startsWith('gap')).sort(), ['gap-1.png', 'gap-3.png']);
+  });
+
+  it('embeds provenance that read_image_metadata reads back from PNG, JPEG and WebP', async () => {
+    const readBack = async (imagePath) => {
+      const result = await client.callTool({ name: 'read_image_metadata', arguments: { imagePath } });
+      assert.ok(!result.isError, resultText(result));
+      const text = resultText(result);
+      return { text, provenance: JSON.parse(text.slice(text.indexOf('Provenance JSON:\n') + 'Provenance JSON:\n'.length)) };
+    };
+
+    for (const [ext, mimeType] of [['png', 'image/png'], ['jpg', 'image/jpeg'], ['webp', 'image/webp']]) {
+      const outputPath = path.join(workDir, `provenance.${ext}`);
+      const result = await client.callTool({
+        name: 'generate_image',
+        arguments: { prompt: 'a banana "with" <provenance> & more', aspectRatio: '16:9', outputPath },
+      });
+      assert.ok(!result.isError, resultText(result));
+      const { text, provenance } = await readBack(outputPath);
+      assert.match(text, new RegExp(`^Format: ${mimeType}$`, 'm'));
+      assert.match(text, /^Tool: generate_image$/m);
+      assert.equal(provenance.prompt, 'a banana "with" <provenance> & more');
+      assert.equal(provenance.aspectRatio, '16:9');
+      assert.equal(provenance.promptTruncated, undefined);
+    }
+
+    // A JPEG APP1 segment holds 64 KB, so a longer prompt is shortened to fit
+    const prompt = 'a banana & a <hat> '.repeat(5000);
+    const outputPath = path.join(workDir, 'long-prompt.jpg');
+    const result = await client.callTool({ name: 'generate_image', arguments: { prompt, outputPath } });
+    assert.ok(!result.isError, resultText(result));
+    const { text, provenance } = await readBack(outputPath);
+    assert.equal(provenance.promptTruncated, true);
+    assert.ok(provenance.prompt.length > 1000 && provenance.prompt.length < prompt.length, `${provenance.prompt.length} chars`);
+    assert.ok(prompt.startsWith(provenance.prompt));
+    assert.match(text, /^Prompt: .* \[truncated\]$/m);
+  });
+
+  it('leaves no file behind when the call fails', async () => {
+    const outputPath = path.join(workDir, 'failed.png');
+    await client.callTool({ name: 'generate_image', arguments: { prompt: 'a banana #safety', outputPath } });
+    assert.equal(fs.existsSync(outputPath), false);
+  });
+
+  it('rejects paths that lead outside the allowed directories through .. or a symlink', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'nanobanana-outside-'));
+    try {
+      fs.copyFileSync(INPUT_IMAGE, path.join(outside, 'secret.png'));
+      fs.symlinkSync(outside, path.join(workDir, 'escape'));
+      const dotDot = `${workDir}/../${path.basename(outside)}`;
+      const viaLink = path.join(workDir, 'escape');
+
+      for (const dir of [dotDot, viaLink]) {
+        // A request that reached Gemini would fail with the quota error recorded for this prompt
+        const generated = await client.callTool({
+          name: 'generate_image',
+          arguments: { prompt: 'a banana #quota', outputPath: `${dir}/escaped.png` },
+        });
+        assert.match(assertToolError(generated, 'invalid_input', false), /outside the allowed directories/);
+        const analyzed = await client.callTool({
+          name: 'analyze_image',
+          arguments: { prompt: 'What is this? #describe', imagePath: `${dir}/secret.png` },
+        });
+        assert.match(assertToolError(analyzed, 'invalid_input', false), /outside the allowed directories/);
+      }
+      assert.deepEqual(fs.readdirSync(outside), ['secret.png']);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('stdio server with a result cache', () => {
+  let workDir;
+  let client;
+
+  before(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanobanana-cache-test-'));
+    client = await connectStdio(workDir, { NANOBANANA_CACHE_DIR: path.join(workDir, 'cache') });
+  });
+
+  after(async () => {
+    await client?.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('answers a repeated request from the cache', async () => {
+    // The replay answers this prompt once; a second Gemini request would fail
+    const generate = (name, extra = {}) =>
+      client.callTool({
+        name: 'generate_image',
+        arguments: { prompt: 'a banana #cache-once', outputPath: path.join(workDir, name), ...extra },
+      });
+
+    const first = await generate('first.png');
+    assert.ok(!first.isError, resultText(first));
+    assert.match(resultText(first), /^Cache: 1 miss\(es\)$/m);
+
+    const second = await generate('second.png');
+    assert.ok(!second.isError, resultText(second));
+    assert.match(resultText(second), /^Cache: 1 hit\(s\), no Gemini request made$/m);
+    assert.doesNotMatch(resultText(second), /^Usage: /m);
+    assert.ok(fs.existsSync(path.join(workDir, 'second.png')));
+
+    const bypassed = await generate('bypassed.png', { bypassCache: true });
+    assert.match(assertToolError(bypassed, 'invalid_input', false), /Only one request was expected/);
+  });
+});